@@ -0,0 +1,54 @@
+/**
+ * Tests for agent work history
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkItem } from '../api/models.js';
+import { agentHistory, summarizeHistory } from '../utils/agent-history.js';
+
+const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+const workItems = [
+  {
+    id: 'w1',
+    status: 'completed',
+    assignedTo: 'a1',
+    assignedAt: '2026-03-01T09:00:00Z',
+    result: { completedAt: '2026-03-01T09:30:00Z' },
+  },
+  {
+    id: 'w2',
+    status: 'failed',
+    assignedTo: 'a1',
+    assignedAt: '2026-03-01T10:00:00Z',
+    error: { message: 'boom', occurredAt: '2026-03-01T10:10:00Z' },
+  },
+  { id: 'w3', status: 'in-progress', assignedTo: 'a1', assignedAt: '2026-03-01T11:00:00Z' },
+  { id: 'w4', status: 'completed', assignedTo: 'a2', assignedAt: '2026-03-01T11:00:00Z' },
+] as WorkItem[];
+
+describe('agentHistory', () => {
+  it('should list the agent\'s work newest first with durations', () => {
+    const history = agentHistory(workItems, 'a1', now);
+
+    expect(history.map((entry) => [entry.workItem.id, entry.durationMs])).toEqual([
+      ['w3', 60 * 60 * 1000],
+      ['w2', 10 * 60 * 1000],
+      ['w1', 30 * 60 * 1000],
+    ]);
+  });
+
+  it('should leave the duration unknown for finished work without an end time', () => {
+    expect(agentHistory(workItems, 'a2', now)[0]!.durationMs).toBeUndefined();
+  });
+});
+
+describe('summarizeHistory', () => {
+  it('should count outcomes and average finished durations', () => {
+    expect(summarizeHistory(agentHistory(workItems, 'a1', now))).toEqual({
+      total: 3,
+      byStatus: { 'in-progress': 1, failed: 1, completed: 1 },
+      averageDurationMs: 20 * 60 * 1000,
+    });
+  });
+});
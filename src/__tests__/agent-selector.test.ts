@@ -0,0 +1,74 @@
+/**
+ * Tests for agent selectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Agent, WorkItem } from '../api/models.js';
+import {
+  agentHasStatus,
+  idleTimeMs,
+  lastActivityByAgent,
+  selectAgents,
+} from '../utils/agent-selector.js';
+
+const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+function agent(guid: string, fields: Partial<Agent> = {}): Agent {
+  return {
+    guid,
+    agentType: 'claude-code',
+    status: 'online',
+    capabilities: ['typescript'],
+    registeredAt: '2026-03-01T08:00:00Z',
+    ...fields,
+  };
+}
+
+describe('agentHasStatus', () => {
+  it('should treat online agents without tasks as idle', () => {
+    expect(agentHasStatus(agent('a'), 'idle')).toBe(true);
+    expect(agentHasStatus(agent('a', { status: 'idle' }), 'idle')).toBe(true);
+    expect(agentHasStatus(agent('a', { currentTaskCount: 1 }), 'idle')).toBe(false);
+    expect(agentHasStatus(agent('a', { status: 'busy' }), 'busy')).toBe(true);
+  });
+});
+
+describe('lastActivityByAgent / idleTimeMs', () => {
+  const work = [
+    { id: 'w1', status: 'completed', assignedTo: 'a', assignedAt: '2026-03-01T10:00:00Z', result: { completedAt: '2026-03-01T11:30:00Z' } },
+    { id: 'w2', status: 'failed', assignedTo: 'a', assignedAt: '2026-03-01T09:00:00Z' },
+    { id: 'w3', status: 'pending' },
+  ] as WorkItem[];
+
+  it('should use the latest work time per agent', () => {
+    const activity = lastActivityByAgent(work);
+
+    expect(activity.get('a')).toBe(new Date('2026-03-01T11:30:00Z').getTime());
+    expect(idleTimeMs(agent('a'), activity, now)).toBe(30 * 60 * 1000);
+  });
+
+  it('should fall back to the registration time and skip busy agents', () => {
+    expect(idleTimeMs(agent('b'), new Map(), now)).toBe(4 * 60 * 60 * 1000);
+    expect(idleTimeMs(agent('b', { currentTaskCount: 2 }), new Map(), now)).toBeUndefined();
+  });
+});
+
+describe('selectAgents', () => {
+  const agents = [
+    agent('a', { capabilities: ['python'] }),
+    agent('b', { agentType: 'copilot-cli' }),
+    agent('c', { currentTaskCount: 1, status: 'busy' }),
+    agent('d', { registeredAt: '2026-03-01T11:50:00Z' }),
+  ];
+
+  it('should combine selectors', () => {
+    expect(selectAgents(agents, { type: 'claude-code' }).map((a) => a.guid)).toEqual(['a', 'c', 'd']);
+    expect(selectAgents(agents, { capability: 'typescript', status: 'idle' }).map((a) => a.guid)).toEqual(['b', 'd']);
+  });
+
+  it('should select agents idle for at least a duration', () => {
+    const selected = selectAgents(agents, { idleForMs: 30 * 60 * 1000 }, new Map(), now);
+
+    expect(selected.map((a) => a.guid)).toEqual(['a', 'b']);
+  });
+});
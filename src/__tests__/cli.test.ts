@@ -0,0 +1,79 @@
+/**
+ * Tests for command-line option parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Command } from 'commander';
+import { createCLI } from '../cli.js';
+
+/**
+ * Parse argv through the real CLI, capturing the options a command's action receives
+ * `inherited` also holds the options its parent commands took.
+ */
+async function parseOptions(path: string[], argv: string[]) {
+  const program = createCLI();
+  let command: Command = program;
+  for (const name of path) {
+    command = command.commands.find((sub) => sub.name() === name)!;
+  }
+
+  let received: Command | undefined;
+  command.action((...args: any[]) => {
+    received = args[args.length - 1] as Command;
+  });
+
+  await program.parseAsync(argv, { from: 'user' });
+  return {
+    options: received!.opts(),
+    inherited: received!.optsWithGlobals(),
+    global: program.opts(),
+    args: received!.processedArgs[0],
+  };
+}
+
+describe('CLI option parsing', () => {
+  it('should keep context values apart from the global --context', async () => {
+    const { options, global } = await parseOptions(
+      ['submit'],
+      ['--context', 'staging', 'submit', 'Fix it', '--ctx', 'repo=loom-shuttle', '--ctx', 'branch=main']
+    );
+
+    expect(options.ctx).toEqual(['repo=loom-shuttle', 'branch=main']);
+    expect(global.context).toBe('staging');
+  });
+
+  it('should accept context values on every command that takes them', async () => {
+    const commands: [string[], string[]][] = [
+      [['templates', 'create'], ['templates', 'create', 'triage', '--ctx', 'repo=loom']],
+      [['schedule', 'add'], ['schedule', 'add', 'Nightly', '--cron', '@daily', '--ctx', 'repo=loom']],
+      [['work', 'retry'], ['work', 'retry', 'work-1', '--ctx', 'repo=loom']],
+    ];
+
+    for (const [path, argv] of commands) {
+      const { options, global } = await parseOptions(path, argv);
+      expect(options.ctx).toEqual(['repo=loom']);
+      expect(global.context).toBeUndefined();
+    }
+  });
+
+  it('should pass agents filters given after a subcommand through to it', async () => {
+    const history = await parseOptions(['agents', 'history'], ['agents', 'history', 'abc', '--status', 'failed']);
+    expect(history.inherited).toMatchObject({ status: 'failed', limit: '20' });
+
+    const list = await parseOptions(['agents', 'list'], ['agents', 'list', '--type', 'claude-code']);
+    expect(list.inherited).toMatchObject({ type: 'claude-code' });
+
+    const parent = await parseOptions(['agents'], ['agents', '--status', 'busy']);
+    expect(parent.options).toEqual({ status: 'busy' });
+  });
+
+  it('should not let --task-id swallow the work IDs after it', async () => {
+    const { options, args } = await parseOptions(
+      ['watch'],
+      ['watch', '--task-id', 'task-1', 'work-1', '--task-id', 'task-2', 'work-2']
+    );
+
+    expect(options.taskId).toEqual(['task-1', 'task-2']);
+    expect(args).toEqual(['work-1', 'work-2']);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Tests for the Weft API client
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WeftAPIClient } from '../api/client.js';
+import { backoffDelay, parseRetryAfter, DEFAULT_RETRY_OPTIONS } from '../api/retry.js';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+describe('Retry Policy', () => {
+  describe('backoffDelay', () => {
+    it('should grow exponentially up to the maximum', () => {
+      const options = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+      const noJitter = () => 1;
+
+      expect(backoffDelay(0, options, noJitter)).toBe(100);
+      expect(backoffDelay(1, options, noJitter)).toBe(200);
+      expect(backoffDelay(3, options, noJitter)).toBe(800);
+      expect(backoffDelay(4, options, noJitter)).toBe(1000);
+    });
+
+    it('should apply full jitter', () => {
+      expect(backoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 0)).toBe(0);
+      expect(backoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 0.5)).toBe(1000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+    });
+
+    it('should ignore missing and invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('later')).toBeUndefined();
+    });
+  });
+});
+
+describe('WeftAPIClient', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createClient(retries = 2) {
+    return new WeftAPIClient({
+      baseUrl: 'http://weft.test/',
+      token: 'secret',
+      retry: { retries, baseDelayMs: 1, maxDelayMs: 1 },
+    });
+  }
+
+  it('should return data on success', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { status: 'ok' }));
+
+    const response = await createClient().health();
+
+    expect(response).toEqual({ ok: true, status: 200, data: { status: 'ok' } });
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://weft.test/health');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should resolve a lazy token once, on the first request', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { status: 'ok' }));
+    const token = vi.fn(() => 'lazy-secret');
+    const client = new WeftAPIClient({ baseUrl: 'http://weft.test', token });
+
+    expect(token).not.toHaveBeenCalled();
+    await client.health();
+    await client.health();
+
+    expect(token).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1]![1].headers.Authorization).toBe('Bearer lazy-secret');
+  });
+
+  it('should retry idempotent requests on transient statuses', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, { error: 'restarting' }))
+      .mockResolvedValueOnce(jsonResponse(502, { error: 'bad gateway' }))
+      .mockResolvedValueOnce(jsonResponse(200, { workItems: [], count: 0 }));
+
+    const response = await createClient().listWork();
+
+    expect(response.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry network errors', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'ok' }));
+
+    const response = await createClient().health();
+
+    expect(response.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured retries', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(504, { error: 'timeout' }));
+
+    const response = await createClient(2).health();
+
+    expect(response).toEqual({ ok: false, status: 504, error: 'timeout' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(404, { error: 'not found' }));
+
+    const response = await createClient().getWork('missing');
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry non-idempotent requests', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(503, { error: 'restarting' }));
+
+    const response = await createClient().cancelWork('w1');
+
+    expect(response.ok).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying when Retry-After is too long', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(429, { error: 'slow down' }, { 'retry-after': '3600' }));
+
+    const response = await createClient().health();
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send an idempotency key and retry work submission', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, { error: 'restarting' }))
+      .mockResolvedValueOnce(jsonResponse(201, { workItemId: 'w1' }));
+
+    const response = await createClient().submitWork({
+      description: 'Fix bug',
+      boundary: 'personal',
+      capability: 'typescript',
+      taskId: 'task-123',
+    });
+
+    expect(response.data).toEqual({ workItemId: 'w1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.headers['Idempotency-Key']).toBe('task-123');
+    }
+  });
+
+  it('should send the grace period with a shutdown request', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { success: true }));
+
+    await createClient().shutdownAgent('a1', true, 60000);
+    await createClient().shutdownAgent('a1', false);
+
+    expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ graceful: true, gracePeriodMs: 60000 });
+    expect(JSON.parse(fetchMock.mock.calls[1]![1].body)).toEqual({ graceful: false });
+  });
+
+  it('should reject responses with an unexpected shape', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, { workItems: [{ id: 'w1', status: 'pending' }, { id: 'w2', state: 'done' }] })
+    );
+
+    const response = await createClient().listWork();
+
+    expect(response.ok).toBe(false);
+    expect(response.status).toBe(200);
+    expect(response.error).toBe(
+      'Coordinator returned unexpected shape: workItems[1].status: expected string, got undefined'
+    );
+  });
+
+  it('should accept work statuses it does not know yet', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { workItems: [{ id: 'w1', status: 'paused' }] }));
+
+    const response = await createClient().listWork();
+
+    expect(response.ok).toBe(true);
+    expect(response.data?.workItems[0]?.status).toBe('paused');
+  });
+
+  it('should remove its abort listener from the caller signal when the stream ends', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('data: {"id":"w1","status":"completed"}\n\n', {
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+      })
+    );
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    const response = await createClient().streamWork('w1', controller.signal);
+    const updates = [];
+    for await (const workItem of response.data!) {
+      updates.push(workItem.status);
+    }
+
+    expect(updates).toEqual(['completed']);
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('should keep fields the models do not declare', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, { guid: 'a1', agentType: 'claude-code', status: 'online', region: 'eu', handle: null })
+    );
+
+    const response = await createClient().getAgent('a1');
+
+    expect(response.data).toEqual({ guid: 'a1', agentType: 'claude-code', status: 'online', region: 'eu' });
+  });
+});
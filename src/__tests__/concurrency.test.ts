@@ -0,0 +1,40 @@
+/**
+ * Tests for concurrency helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapConcurrent, withTimeout, TimeoutError } from '../utils/concurrency.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapConcurrent', () => {
+  it('should keep input order and respect the limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(ms);
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('withTimeout', () => {
+  it('should resolve when the promise settles in time', async () => {
+    expect(await withTimeout(Promise.resolve('ok'), 50, 'slow')).toBe('ok');
+  });
+
+  it('should reject with a TimeoutError when it does not', async () => {
+    await expect(withTimeout(sleep(100), 10, 'took too long')).rejects.toThrow(TimeoutError);
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync, statSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
@@ -14,6 +14,13 @@ import {
   listConfig,
   validateConfig,
   getDefaultConfigPath,
+  getCurrentContext,
+  listContexts,
+  useContext,
+  setContext,
+  removeApiToken,
+  resolveConfig,
+  findProjectConfig,
 } from '../utils/config-file.js';
 
 // Create a temp directory for tests
@@ -31,6 +38,8 @@ describe('Config File', () => {
     delete process.env.PROJECT_ID;
     delete process.env.LOOM_API_URL;
     delete process.env.LOOM_API_TOKEN;
+    delete process.env.LOOM_CONTEXT;
+    delete process.env.LOOM_CREDENTIAL_PASSPHRASE;
 
     // Ensure test directory exists
     if (!existsSync(TEST_DIR)) {
@@ -232,6 +241,269 @@ describe('Config File', () => {
     });
   });
 
+  describe('contexts', () => {
+    beforeEach(() => {
+      writeFileSync(
+        TEST_CONFIG,
+        JSON.stringify({
+          apiUrl: 'http://localhost:3000',
+          projectId: 'local',
+        })
+      );
+    });
+
+    it('should treat a flat config file as the default context', () => {
+      expect(getCurrentContext(TEST_CONFIG)).toBe('default');
+      expect(listContexts(TEST_CONFIG)).toEqual([
+        { name: 'default', current: true, apiUrl: 'http://localhost:3000', projectId: 'local' },
+      ]);
+    });
+
+    it('should create and switch to a named context', () => {
+      setContext('staging', { apiUrl: 'https://staging.example.com', projectId: 'stage' }, TEST_CONFIG);
+      useContext('staging', TEST_CONFIG);
+
+      const config = loadConfig(TEST_CONFIG);
+      expect(config.apiUrl).toBe('https://staging.example.com');
+      expect(config.projectId).toBe('stage');
+
+      // The default context is left untouched at the top level
+      const file = JSON.parse(readFileSync(TEST_CONFIG, 'utf-8'));
+      expect(file.apiUrl).toBe('http://localhost:3000');
+      expect(file.currentContext).toBe('staging');
+    });
+
+    it('should select a context by option over env var over current context', () => {
+      setContext('staging', { projectId: 'stage' }, TEST_CONFIG);
+      setContext('prod', { projectId: 'production' }, TEST_CONFIG);
+      useContext('staging', TEST_CONFIG);
+
+      expect(loadConfig(TEST_CONFIG).projectId).toBe('stage');
+
+      process.env.LOOM_CONTEXT = 'prod';
+      expect(loadConfig(TEST_CONFIG).projectId).toBe('production');
+
+      expect(loadConfig({ configPath: TEST_CONFIG, context: 'default' }).projectId).toBe('local');
+    });
+
+    it('should save values into the active context', () => {
+      setContext('staging', { projectId: 'stage' }, TEST_CONFIG);
+      useContext('staging', TEST_CONFIG);
+
+      setConfigValue('defaultBoundary', 'staging-boundary', TEST_CONFIG);
+
+      expect(loadConfig(TEST_CONFIG).defaultBoundary).toBe('staging-boundary');
+      expect(loadConfig({ configPath: TEST_CONFIG, context: 'default' }).defaultBoundary).toBeUndefined();
+    });
+
+    it('should not expose context bookkeeping as config values', () => {
+      setContext('staging', { projectId: 'stage' }, TEST_CONFIG);
+      useContext('default', TEST_CONFIG);
+
+      const file = JSON.parse(readFileSync(TEST_CONFIG, 'utf-8'));
+      expect(file.currentContext).toBeUndefined();
+      expect(listContexts(TEST_CONFIG).map((c) => c.name)).toEqual(['default', 'staging']);
+    });
+
+    it('should reject unknown contexts', () => {
+      expect(() => useContext('missing', TEST_CONFIG)).toThrow(/Unknown context "missing"/);
+      expect(() => loadConfig({ configPath: TEST_CONFIG, context: 'missing' })).toThrow(
+        /Unknown context/
+      );
+    });
+
+    it('should reject invalid context names', () => {
+      expect(() => setContext('bad name', {}, TEST_CONFIG)).toThrow(/Context names/);
+    });
+  });
+
+  describe('API token storage', () => {
+    const credentialsPath = join(TEST_DIR, 'credentials.json');
+
+    afterEach(() => {
+      if (existsSync(credentialsPath)) {
+        unlinkSync(credentialsPath);
+      }
+    });
+
+    it('should keep the token out of the config file', () => {
+      saveConfig({ apiUrl: 'http://localhost:3000', apiToken: 'secret-token' }, TEST_CONFIG);
+
+      const file = JSON.parse(readFileSync(TEST_CONFIG, 'utf-8'));
+      expect(file.apiUrl).toBe('http://localhost:3000');
+      expect(file.apiToken).toBeUndefined();
+      expect(readFileSync(credentialsPath, 'utf-8')).toContain('secret-token');
+      expect(statSync(credentialsPath).mode & 0o777).toBe(0o600);
+      expect(statSync(TEST_CONFIG).mode & 0o777).toBe(0o600);
+
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('secret-token');
+    });
+
+    it('should store tokens per context', () => {
+      saveConfig({ apiToken: 'default-token' }, TEST_CONFIG);
+      setContext('staging', { apiToken: 'staging-token' }, TEST_CONFIG);
+
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('default-token');
+      expect(loadConfig({ configPath: TEST_CONFIG, context: 'staging' }).apiToken).toBe('staging-token');
+    });
+
+    it('should still read a legacy plaintext token', () => {
+      writeFileSync(TEST_CONFIG, JSON.stringify({ apiToken: 'legacy-token' }));
+
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('legacy-token');
+    });
+
+    it('should move a legacy plaintext token when it is replaced', () => {
+      writeFileSync(TEST_CONFIG, JSON.stringify({ apiToken: 'legacy-token' }));
+      saveConfig({ apiToken: 'new-token' }, TEST_CONFIG);
+
+      expect(JSON.parse(readFileSync(TEST_CONFIG, 'utf-8')).apiToken).toBeUndefined();
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('new-token');
+    });
+
+    it('should encrypt the token when a passphrase is set', () => {
+      process.env.LOOM_CREDENTIAL_PASSPHRASE = 'correct horse';
+      saveConfig({ apiToken: 'secret-token' }, TEST_CONFIG);
+
+      expect(readFileSync(credentialsPath, 'utf-8')).not.toContain('secret-token');
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('secret-token');
+    });
+
+    it('should remove the token on logout', () => {
+      writeFileSync(TEST_CONFIG, JSON.stringify({ projectId: 'local' }));
+      saveConfig({ apiToken: 'secret-token' }, TEST_CONFIG);
+
+      expect(removeApiToken(TEST_CONFIG)).toBe(credentialsPath);
+      expect(loadConfig(TEST_CONFIG).apiToken).toBeUndefined();
+      expect(loadConfig(TEST_CONFIG).projectId).toBe('local');
+    });
+
+    it('should let the environment override the stored token', () => {
+      saveConfig({ apiToken: 'stored-token' }, TEST_CONFIG);
+      process.env.LOOM_API_TOKEN = 'env-token';
+
+      expect(loadConfig(TEST_CONFIG).apiToken).toBe('env-token');
+    });
+
+    it('should only run the credential helper when the token is used', () => {
+      const log = join(TEST_DIR, 'helper.log');
+      writeFileSync(
+        TEST_CONFIG,
+        JSON.stringify({ credentialCommand: `sh -c 'echo "$0" >> ${log}; echo token=from-helper'` })
+      );
+
+      const resolved = resolveConfig(TEST_CONFIG);
+      expect(existsSync(log)).toBe(false);
+
+      expect(resolved.config.apiToken).toBe('from-helper');
+      expect(resolved.config.apiToken).toBe('from-helper');
+      expect(resolved.origins.apiToken?.layer).toBe('credentials');
+      expect(readFileSync(log, 'utf-8')).toBe('get\n');
+      unlinkSync(log);
+    });
+  });
+
+  describe('project config', () => {
+    const repoDir = join(TEST_DIR, 'repo');
+    const nestedDir = join(repoDir, 'packages', 'web');
+
+    beforeEach(() => {
+      mkdirSync(nestedDir, { recursive: true });
+      writeFileSync(
+        TEST_CONFIG,
+        JSON.stringify({ apiUrl: 'http://localhost:3000', projectId: 'user-project', defaultPriority: 3 })
+      );
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should find .loomrc walking up from a nested directory', () => {
+      writeFileSync(join(repoDir, '.loomrc'), JSON.stringify({ projectId: 'repo-project' }));
+
+      expect(findProjectConfig(nestedDir, TEST_CONFIG)).toBe(join(repoDir, '.loomrc'));
+    });
+
+    it('should prefer .loom/config.json over .loomrc in the same directory', () => {
+      mkdirSync(join(repoDir, '.loom'));
+      writeFileSync(join(repoDir, '.loom', 'config.json'), '{}');
+      writeFileSync(join(repoDir, '.loomrc'), '{}');
+
+      expect(findProjectConfig(nestedDir, TEST_CONFIG)).toBe(join(repoDir, '.loom', 'config.json'));
+    });
+
+    it('should layer the project file over the user file', () => {
+      writeFileSync(
+        join(repoDir, '.loomrc'),
+        JSON.stringify({ projectId: 'repo-project', defaultBoundary: 'team-web' })
+      );
+
+      const config = loadConfig({ configPath: TEST_CONFIG, cwd: nestedDir });
+      expect(config.projectId).toBe('repo-project');
+      expect(config.defaultBoundary).toBe('team-web');
+      expect(config.apiUrl).toBe('http://localhost:3000');
+      expect(config.defaultPriority).toBe(3);
+    });
+
+    it('should let env vars and flags override the project file', () => {
+      writeFileSync(join(repoDir, '.loomrc'), JSON.stringify({ projectId: 'repo-project' }));
+
+      process.env.PROJECT_ID = 'env-project';
+      expect(loadConfig({ configPath: TEST_CONFIG, cwd: nestedDir }).projectId).toBe('env-project');
+      expect(
+        loadConfig({ configPath: TEST_CONFIG, cwd: nestedDir, projectOverride: 'flag-project' }).projectId
+      ).toBe('flag-project');
+    });
+
+    it('should ignore tokens and credential helpers in project files', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      writeFileSync(
+        join(repoDir, '.loomrc'),
+        JSON.stringify({ apiToken: 'committed-token', credentialCommand: 'evil' })
+      );
+
+      const config = loadConfig({ configPath: TEST_CONFIG, cwd: nestedDir });
+      expect(config.apiToken).toBeUndefined();
+      expect(config.credentialCommand).toBeUndefined();
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it('should not let project files redirect the stored token to another server', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      writeFileSync(
+        join(repoDir, '.loomrc'),
+        JSON.stringify({ apiUrl: 'https://attacker.example.com', natsUrl: 'nats://attacker.example.com' })
+      );
+
+      const resolved = resolveConfig({ configPath: TEST_CONFIG, cwd: nestedDir });
+      expect(resolved.config.apiUrl).toBe('http://localhost:3000');
+      expect(resolved.origins.apiUrl?.layer).toBe('user');
+      expect(resolved.config.natsUrl).not.toBe('nats://attacker.example.com');
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it('should report the origin of each value', () => {
+      writeFileSync(join(repoDir, '.loomrc'), JSON.stringify({ defaultBoundary: 'team-web' }));
+      process.env.LOOM_API_URL = 'https://weft.example.com';
+
+      const { origins, projectConfigPath } = resolveConfig({
+        configPath: TEST_CONFIG,
+        cwd: nestedDir,
+        projectOverride: 'flag-project',
+      });
+
+      expect(projectConfigPath).toBe(join(repoDir, '.loomrc'));
+      expect(origins.projectId).toEqual({ layer: 'flag', source: '--project' });
+      expect(origins.apiUrl).toEqual({ layer: 'env', source: 'LOOM_API_URL' });
+      expect(origins.defaultBoundary).toEqual({ layer: 'project', source: join(repoDir, '.loomrc') });
+      expect(origins.defaultPriority).toEqual({ layer: 'user', source: TEST_CONFIG });
+      expect(origins.outputFormat).toEqual({ layer: 'default' });
+    });
+  });
+
   describe('getDefaultConfigPath', () => {
     it('should return path containing .loom', () => {
       const path = getDefaultConfigPath();
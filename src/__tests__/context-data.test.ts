@@ -0,0 +1,83 @@
+/**
+ * Tests for work context data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildContextData, parseKeyValuePairs, readAttachments } from '../utils/context-data.js';
+
+describe('parseKeyValuePairs', () => {
+  it('should split on the first equals sign', () => {
+    expect(parseKeyValuePairs(['repo=loom', 'query=a=b', 'empty='], 'context')).toEqual({
+      repo: 'loom',
+      query: 'a=b',
+      empty: '',
+    });
+  });
+
+  it('should reject pairs without a key, naming what was parsed', () => {
+    expect(() => parseKeyValuePairs(['novalue'], 'context')).toThrow('Invalid context "novalue" (expected key=value)');
+    expect(() => parseKeyValuePairs(['=x'], 'variable')).toThrow('Invalid variable "=x" (expected key=value)');
+  });
+});
+
+describe('Context files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shuttle-context-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should inline text and binary attachments', () => {
+    writeFileSync(join(dir, 'repro.log'), 'stack trace');
+    writeFileSync(join(dir, 'dump.bin'), Buffer.from([0, 1, 2]));
+
+    expect(readAttachments([join(dir, 'repro.log'), join(dir, 'dump.bin')])).toEqual([
+      { name: 'repro.log', size: 11, encoding: 'utf-8', content: 'stack trace' },
+      { name: 'dump.bin', size: 3, encoding: 'base64', content: 'AAEC' },
+    ]);
+  });
+
+  it('should enforce the size limits', () => {
+    writeFileSync(join(dir, 'a.txt'), 'x'.repeat(10));
+    writeFileSync(join(dir, 'b.txt'), 'x'.repeat(10));
+
+    expect(() => readAttachments([join(dir, 'a.txt')], { maxFileBytes: 5 })).toThrow('limit is 5 bytes per file');
+    expect(() => readAttachments([join(dir, 'a.txt'), join(dir, 'b.txt')], { maxTotalBytes: 15 })).toThrow(
+      'combined limit of 15 bytes'
+    );
+  });
+
+  it('should merge the file, pairs and attachments', async () => {
+    writeFileSync(join(dir, 'context.yaml'), 'repo: loom\nbranch: main\n');
+    writeFileSync(join(dir, 'spec.md'), '# Spec');
+
+    const contextData = await buildContextData({
+      file: join(dir, 'context.yaml'),
+      pairs: ['branch=fix'],
+      attach: [join(dir, 'spec.md')],
+    });
+
+    expect(contextData).toEqual({
+      repo: 'loom',
+      branch: 'fix',
+      attachments: [{ name: 'spec.md', size: 6, encoding: 'utf-8', content: '# Spec' }],
+    });
+  });
+
+  it('should reject context files that are not objects', async () => {
+    writeFileSync(join(dir, 'list.json'), '[1, 2]');
+
+    await expect(buildContextData({ file: join(dir, 'list.json') })).rejects.toThrow('must contain an object');
+  });
+
+  it('should return undefined without sources', async () => {
+    expect(await buildContextData({})).toBeUndefined();
+  });
+});
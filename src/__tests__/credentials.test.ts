@@ -0,0 +1,98 @@
+/**
+ * Tests for credential storage
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, readFileSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  encryptSecret,
+  decryptSecret,
+  createFileCredentialStore,
+  createCommandCredentialStore,
+  maskSecret,
+} from '../utils/credentials.js';
+
+const TEST_DIR = join(tmpdir(), `loom-credentials-test-${Date.now()}`);
+const TEST_FILE = join(TEST_DIR, 'credentials.json');
+
+describe('credentials', () => {
+  afterEach(() => {
+    if (existsSync(TEST_FILE)) {
+      unlinkSync(TEST_FILE);
+    }
+  });
+
+  describe('encryptSecret', () => {
+    it('should round-trip a secret', () => {
+      const encrypted = encryptSecret('my-token', 'passphrase');
+
+      expect(encrypted.data).not.toContain('my-token');
+      expect(decryptSecret(encrypted, 'passphrase')).toBe('my-token');
+    });
+
+    it('should reject the wrong passphrase', () => {
+      const encrypted = encryptSecret('my-token', 'passphrase');
+
+      expect(() => decryptSecret(encrypted, 'other')).toThrow(/Failed to decrypt/);
+    });
+  });
+
+  describe('createFileCredentialStore', () => {
+    it('should store, read and delete tokens by context', () => {
+      const store = createFileCredentialStore(TEST_FILE);
+
+      store.set('default', 'token-a');
+      store.set('staging', 'token-b');
+      expect(store.get('default')).toBe('token-a');
+      expect(store.get('staging')).toBe('token-b');
+
+      store.delete('staging');
+      expect(store.get('staging')).toBeUndefined();
+      expect(store.get('default')).toBe('token-a');
+    });
+
+    it('should require the passphrase for encrypted entries', () => {
+      createFileCredentialStore(TEST_FILE, 'passphrase').set('default', 'token-a');
+
+      expect(readFileSync(TEST_FILE, 'utf-8')).not.toContain('token-a');
+      expect(createFileCredentialStore(TEST_FILE, 'passphrase').get('default')).toBe('token-a');
+      expect(() => createFileCredentialStore(TEST_FILE).get('default')).toThrow(
+        /LOOM_CREDENTIAL_PASSPHRASE/
+      );
+    });
+  });
+
+  describe('createCommandCredentialStore', () => {
+    it('should pass the action and context to the helper', () => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      const log = join(TEST_DIR, 'helper.log');
+      const store = createCommandCredentialStore(
+        `sh -c 'cat >> ${log}; [ "$0" = get ] && echo token=from-helper; true'`
+      );
+
+      expect(store.get('staging')).toBe('from-helper');
+      store.set('staging', 'new-token');
+
+      const input = readFileSync(log, 'utf-8');
+      expect(input).toContain('context=staging');
+      expect(input).toContain('token=new-token');
+      unlinkSync(log);
+    });
+
+    it('should fail when the helper exits non-zero', () => {
+      const store = createCommandCredentialStore('false');
+
+      expect(() => store.get('default')).toThrow(/exited with code 1/);
+    });
+  });
+
+  describe('maskSecret', () => {
+    it('should keep only a short prefix', () => {
+      expect(maskSecret('abcdefghijklmnop')).toBe('abcd********');
+      expect(maskSecret('short')).toBe('********');
+      expect(maskSecret(undefined)).toBeUndefined();
+    });
+  });
+});
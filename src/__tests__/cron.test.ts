@@ -0,0 +1,65 @@
+/**
+ * Tests for cron expressions
+ * Dates are built in local time, which is what schedules are evaluated in.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cronMatches, nextCronTime, parseCron } from '../utils/cron.js';
+
+describe('parseCron', () => {
+  it('should expand lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 * mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday and start open-ended steps at the given value', () => {
+    const schedule = parseCron('5/20 0 * * 7');
+
+    expect([...schedule.minutes]).toEqual([5, 25, 45]);
+    expect([...schedule.daysOfWeek]).toEqual([0]);
+  });
+
+  it('should expand macros', () => {
+    expect(parseCron('@daily')).toMatchObject({ expression: '@daily', anyDayOfMonth: true });
+    expect([...parseCron('@weekly').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should name the invalid field', () => {
+    expect(() => parseCron('0 2 * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 2 * * *')).toThrow('"60" is out of range for minute (0-59)');
+    expect(() => parseCron('0 2 * foo *')).toThrow('"foo" is not a valid month');
+    expect(() => parseCron('*/0 * * * *')).toThrow('"0" is not a valid minute step');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('should find the next matching minute', () => {
+    const schedule = parseCron('0 2 * * *');
+
+    expect(nextCronTime(schedule, new Date(2025, 0, 10, 1, 30))).toEqual(new Date(2025, 0, 10, 2, 0));
+    expect(nextCronTime(schedule, new Date(2025, 0, 10, 2, 0))).toEqual(new Date(2025, 0, 11, 2, 0));
+  });
+
+  it('should cross month and year boundaries', () => {
+    expect(nextCronTime(parseCron('@monthly'), new Date(2025, 11, 15))).toEqual(new Date(2026, 0, 1, 0, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month or any Monday; 2025-01-02 is a Thursday
+    const schedule = parseCron('0 0 1 * mon');
+
+    expect(nextCronTime(schedule, new Date(2025, 0, 2))).toEqual(new Date(2025, 0, 6, 0, 0));
+    expect(cronMatches(schedule, new Date(2025, 1, 1, 0, 0))).toBe(true);
+  });
+
+  it('should fail for expressions that never match', () => {
+    expect(() => nextCronTime(parseCron('0 0 30 2 *'), new Date(2025, 0, 1))).toThrow(
+      'Cron expression "0 0 30 2 *" never matches'
+    );
+  });
+});
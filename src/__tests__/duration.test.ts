@@ -0,0 +1,57 @@
+/**
+ * Tests for duration parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDuration, parsePositiveDuration, parseSeconds } from '../utils/duration.js';
+
+describe('parseDuration', () => {
+  it('should treat bare numbers as seconds', () => {
+    expect(parseDuration('30')).toBe(30000);
+    expect(parseDuration('1.5')).toBe(1500);
+  });
+
+  it('should parse single units', () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('90s')).toBe(90000);
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('2h')).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration('1d')).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should parse compound durations', () => {
+    expect(parseDuration('1h30m')).toBe(90 * 60 * 1000);
+    expect(parseDuration('1m30s')).toBe(90000);
+  });
+
+  it('should be case-insensitive and ignore surrounding whitespace', () => {
+    expect(parseDuration(' 5M ')).toBe(5 * 60 * 1000);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseDuration('')).toThrow(/Invalid duration/);
+    expect(() => parseDuration('soon')).toThrow(/Invalid duration/);
+    expect(() => parseDuration('5x')).toThrow(/Invalid duration/);
+    expect(() => parseDuration('5m later')).toThrow(/Invalid duration/);
+  });
+});
+
+describe('parseSeconds', () => {
+  it('should convert whole seconds to milliseconds', () => {
+    expect(parseSeconds('5', '--interval')).toBe(5000);
+  });
+
+  it('should reject anything but a positive whole number', () => {
+    for (const value of ['abc', '0', '-1', '1.5', '2s', '']) {
+      expect(() => parseSeconds(value, '--interval')).toThrow('--interval must be a positive whole number of seconds');
+    }
+  });
+});
+
+describe('parsePositiveDuration', () => {
+  it('should reject a zero duration instead of treating it as none', () => {
+    expect(parsePositiveDuration('90s', '--timeout')).toBe(90000);
+    expect(() => parsePositiveDuration('0', '--timeout')).toThrow('--timeout must be longer than zero, got "0"');
+    expect(() => parsePositiveDuration('0m', '--timeout')).toThrow('--timeout must be longer than zero');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for following and waiting on work items
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WeftAPIClient } from '../api/client.js';
+import { submitAndWait } from '../utils/follow-work.js';
+
+function createClient(statuses: string[], submit = { ok: true, status: 201, data: { workItemId: 'w1' } }) {
+  let poll = 0;
+  return {
+    submitWork: vi.fn(async () => submit),
+    streamWork: vi.fn(async () => ({ ok: false, status: 404 })),
+    getWork: vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      data: { id: 'w1', status: statuses[Math.min(poll++, statuses.length - 1)] },
+    })),
+  } as unknown as WeftAPIClient & { submitWork: ReturnType<typeof vi.fn> };
+}
+
+const work = { description: 'Fix bug', boundary: 'personal', capability: 'typescript' };
+
+describe('submitAndWait', () => {
+  it('should submit with a task ID and resolve with the final state', async () => {
+    const client = createClient(['pending', 'in-progress', 'completed']);
+
+    const result = await submitAndWait(client, work, { intervalMs: 1 });
+
+    expect(result).toEqual({
+      workItemId: 'w1',
+      workItem: { id: 'w1', status: 'completed' },
+      outcome: 'completed',
+    });
+    expect(client.submitWork.mock.calls[0]![0].taskId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should report failures as the outcome', async () => {
+    const result = await submitAndWait(createClient(['failed']), work, { intervalMs: 1 });
+
+    expect(result.outcome).toBe('failed');
+  });
+
+  it('should time out while the work is unfinished', async () => {
+    const result = await submitAndWait(createClient(['pending']), work, { intervalMs: 5, timeoutMs: 20 });
+
+    expect(result.outcome).toBe('timeout');
+    expect(result.workItem?.status).toBe('pending');
+  });
+
+  it('should throw when the submission is rejected', async () => {
+    const client = createClient([], { ok: false, status: 400, error: 'capability is required' } as any);
+
+    await expect(submitAndWait(client, work)).rejects.toThrow('Failed to submit work: capability is required');
+  });
+});
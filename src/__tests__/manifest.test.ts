@@ -0,0 +1,155 @@
+/**
+ * Tests for work manifest parsing and validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectDataFormat, parseDataDocument } from '../utils/data-file.js';
+import { validateWorkManifest, validateWorkManifestItem } from '../utils/manifest.js';
+
+describe('Data Files', () => {
+  describe('detectDataFormat', () => {
+    it('should detect format from extension', () => {
+      expect(detectDataFormat('tasks.json', '')).toBe('json');
+      expect(detectDataFormat('tasks.yml', '')).toBe('yaml');
+      expect(detectDataFormat('tasks.YAML', '')).toBe('yaml');
+      expect(detectDataFormat('tasks.ndjson', '')).toBe('ndjson');
+      expect(detectDataFormat('tasks.jsonl', '')).toBe('ndjson');
+    });
+
+    it('should sniff content when extension is unknown', () => {
+      expect(detectDataFormat('-', '[{"description": "a"}]')).toBe('json');
+      expect(detectDataFormat('-', '{"description": "a"}\n{"description": "b"}\n')).toBe('ndjson');
+      expect(detectDataFormat('-', '- description: a\n')).toBe('yaml');
+    });
+  });
+
+  describe('parseDataDocument', () => {
+    it('should parse YAML', () => {
+      expect(parseDataDocument('- description: a\n  priority: 3\n', 'yaml')).toEqual([
+        { description: 'a', priority: 3 },
+      ]);
+    });
+
+    it('should parse NDJSON skipping blank and comment lines', () => {
+      expect(parseDataDocument('{"a":1}\n\n# note\n{"a":2}\n', 'ndjson')).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it('should report the failing NDJSON line', () => {
+      expect(() => parseDataDocument('{"a":1}\n{oops}\n', 'ndjson')).toThrow(/line 2/);
+    });
+  });
+});
+
+describe('Work Manifest', () => {
+  describe('validateWorkManifestItem', () => {
+    it('should apply defaults to missing fields', () => {
+      const { item, errors } = validateWorkManifestItem(
+        { description: 'Fix bug' },
+        { boundary: 'personal', capability: 'typescript', priority: 7 }
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(item).toEqual({
+        description: 'Fix bug',
+        boundary: 'personal',
+        capability: 'typescript',
+        priority: 7,
+        deadline: undefined,
+        taskId: undefined,
+        contextData: undefined,
+      });
+    });
+
+    it('should let items override the default agent type', () => {
+      const defaults = { boundary: 'b', capability: 'c', agentType: 'claude-code' as const };
+
+      expect(validateWorkManifestItem({ description: 'x' }, defaults).item?.agentType).toBe('claude-code');
+      expect(
+        validateWorkManifestItem({ description: 'x', agentType: 'copilot-cli' }, defaults).item?.agentType
+      ).toBe('copilot-cli');
+      expect(validateWorkManifestItem({ description: 'x', agentType: '' }, defaults).errors).toEqual([
+        'agentType must be one of copilot-cli, claude-code',
+      ]);
+      expect(validateWorkManifestItem({ description: 'x', agentType: 'claude' }, defaults).errors).toEqual([
+        'agentType must be one of copilot-cli, claude-code',
+      ]);
+    });
+
+    it('should accept a bare description string', () => {
+      const { item } = validateWorkManifestItem('Fix bug', { boundary: 'b', capability: 'c' });
+      expect(item?.description).toBe('Fix bug');
+      expect(item?.priority).toBe(5);
+    });
+
+    it('should merge contextData over default contextData', () => {
+      const { item } = validateWorkManifestItem(
+        { description: 'x', contextData: { b: 2 } },
+        { boundary: 'b', capability: 'c', contextData: { a: 1, b: 1 } }
+      );
+      expect(item?.contextData).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should collect every problem with an item', () => {
+      const { item, errors } = validateWorkManifestItem({
+        priority: 11,
+        deadline: 'tomorrow',
+        contextData: 'nope',
+        capabilty: 'typo',
+      });
+
+      expect(item).toBeUndefined();
+      expect(errors).toContain('unknown field(s): capabilty');
+      expect(errors).toContain('description is required');
+      expect(errors).toContain('boundary is required');
+      expect(errors).toContain('capability is required');
+      expect(errors).toContain('priority must be an integer between 1 and 10');
+      expect(errors).toContain('deadline must be an ISO 8601 timestamp');
+      expect(errors).toContain('contextData must be an object');
+    });
+  });
+
+  describe('validateWorkManifest', () => {
+    it('should accept a list of items', () => {
+      const result = validateWorkManifest([
+        { description: 'a', boundary: 'b', capability: 'c' },
+        { description: 'd', boundary: 'b', capability: 'c', priority: 2 },
+      ]);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.items).toHaveLength(2);
+    });
+
+    it('should apply document defaults over caller defaults', () => {
+      const result = validateWorkManifest(
+        { defaults: { boundary: 'doc' }, items: [{ description: 'a' }] },
+        { boundary: 'flag', capability: 'c' }
+      );
+
+      expect(result.items[0]?.boundary).toBe('doc');
+      expect(result.items[0]?.capability).toBe('c');
+    });
+
+    it('should prefix errors with the item number', () => {
+      const result = validateWorkManifest([
+        { description: 'a', boundary: 'b', capability: 'c' },
+        { boundary: 'b', capability: 'c' },
+      ]);
+
+      expect(result.errors).toEqual(['item 2: description is required']);
+    });
+
+    it('should reject empty and malformed manifests', () => {
+      expect(validateWorkManifest([]).errors).toEqual(['manifest contains no work items']);
+      expect(validateWorkManifest({ foo: 1 }).errors[0]).toMatch(/must be a list/);
+    });
+
+    it('should reject duplicate task IDs', () => {
+      const result = validateWorkManifest([
+        { description: 'a', boundary: 'b', capability: 'c', taskId: 't1' },
+        { description: 'd', boundary: 'b', capability: 'c', taskId: 't1' },
+      ]);
+
+      expect(result.errors).toEqual(['duplicate taskId(s): t1']);
+    });
+  });
+});
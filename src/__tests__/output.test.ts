@@ -11,6 +11,7 @@ import {
   info,
   formatTimestamp,
   formatDuration,
+  formatProgressBar,
   colorStatus,
   colorAgentType,
   colorBoundary,
@@ -173,6 +174,22 @@ describe('Output Utilities', () => {
     });
   });
 
+  describe('formatProgressBar', () => {
+    it('should render an empty and a full bar', () => {
+      expect(formatProgressBar(0, 10)).toBe('[░░░░░░░░░░] 0%');
+      expect(formatProgressBar(100, 10)).toBe('[██████████] 100%');
+    });
+
+    it('should fill proportionally', () => {
+      expect(formatProgressBar(40, 10)).toBe('[████░░░░░░] 40%');
+    });
+
+    it('should clamp out-of-range values', () => {
+      expect(formatProgressBar(150, 4)).toBe('[████] 100%');
+      expect(formatProgressBar(-5, 4)).toBe('[░░░░] 0%');
+    });
+  });
+
   describe('colorStatus', () => {
     it('should color online status green', () => {
       const result = colorStatus('online');
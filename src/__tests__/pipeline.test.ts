@@ -0,0 +1,186 @@
+/**
+ * Tests for pipeline graph handling
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parsePipeline,
+  findCycle,
+  nodeDepths,
+  descendantsOf,
+  createPipelineState,
+  resumePipelineState,
+  readyNodes,
+  activeNodes,
+  isPipelineFinished,
+  loadPipelineState,
+  nodeTaskId,
+  type Pipeline,
+} from '../utils/pipeline.js';
+
+const defaults = { boundary: 'personal', capability: 'typescript' };
+
+function buildPipeline(document: unknown): Pipeline {
+  const { pipeline, errors } = parsePipeline(document, defaults);
+  expect(errors).toEqual([]);
+  return pipeline!;
+}
+
+describe('Pipeline', () => {
+  describe('parsePipeline', () => {
+    it('should parse nodes with dependencies', () => {
+      const pipeline = buildPipeline({
+        nodes: [
+          { id: 'a', description: 'first' },
+          { id: 'b', description: 'second', dependsOn: ['a'] },
+        ],
+      });
+
+      expect(pipeline.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+      expect(pipeline.nodes[1]?.dependsOn).toEqual(['a']);
+      expect(pipeline.nodes[1]?.item.boundary).toBe('personal');
+    });
+
+    it('should report unknown dependencies and duplicate ids', () => {
+      const { errors } = parsePipeline(
+        [
+          { id: 'a', description: 'x' },
+          { id: 'a', description: 'y', dependsOn: ['missing'] },
+        ],
+        defaults
+      );
+
+      expect(errors).toContain('duplicate node id: a');
+      expect(errors).toContain('a: depends on unknown node "missing"');
+    });
+
+    it('should prefix item errors with the node id', () => {
+      const { errors } = parsePipeline([{ id: 'a' }], defaults);
+      expect(errors).toEqual(['a: description is required']);
+    });
+
+    it('should reject cycles', () => {
+      const { errors } = parsePipeline(
+        [
+          { id: 'a', description: 'x', dependsOn: ['c'] },
+          { id: 'b', description: 'y', dependsOn: ['a'] },
+          { id: 'c', description: 'z', dependsOn: ['b'] },
+        ],
+        defaults
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^dependency cycle: /);
+    });
+  });
+
+  describe('graph helpers', () => {
+    const pipeline = buildPipeline([
+      { id: 'a', description: 'a' },
+      { id: 'b', description: 'b', dependsOn: ['a'] },
+      { id: 'c', description: 'c', dependsOn: ['a', 'b'] },
+      { id: 'd', description: 'd' },
+    ]);
+
+    it('should find no cycle in a DAG', () => {
+      expect(findCycle(pipeline)).toBeUndefined();
+    });
+
+    it('should compute node depths from the longest path', () => {
+      const depths = nodeDepths(pipeline);
+      expect(depths.get('a')).toBe(0);
+      expect(depths.get('b')).toBe(1);
+      expect(depths.get('c')).toBe(2);
+      expect(depths.get('d')).toBe(0);
+    });
+
+    it('should find transitive descendants', () => {
+      expect(descendantsOf(pipeline, 'a').sort()).toEqual(['b', 'c']);
+      expect(descendantsOf(pipeline, 'd')).toEqual([]);
+    });
+
+    it('should release nodes only when dependencies completed', () => {
+      const state = createPipelineState(pipeline);
+      expect(readyNodes(pipeline, state).map((n) => n.id)).toEqual(['a', 'd']);
+
+      state.nodes.a = { status: 'in-progress', workItemId: 'w-a' };
+      expect(readyNodes(pipeline, state).map((n) => n.id)).toEqual(['d']);
+      expect(activeNodes(pipeline, state).map((n) => n.id)).toEqual(['a']);
+
+      state.nodes.a = { status: 'completed', workItemId: 'w-a' };
+      expect(readyNodes(pipeline, state).map((n) => n.id)).toEqual(['b', 'd']);
+    });
+
+    it('should report when every node has finished', () => {
+      const state = createPipelineState(pipeline);
+      expect(isPipelineFinished(state)).toBe(false);
+
+      state.nodes.a = { status: 'failed' };
+      state.nodes.b = { status: 'skipped' };
+      state.nodes.c = { status: 'skipped' };
+      state.nodes.d = { status: 'completed' };
+      expect(isPipelineFinished(state)).toBe(true);
+    });
+  });
+
+  describe('resumePipelineState', () => {
+    const pipeline = buildPipeline([
+      { id: 'a', description: 'a' },
+      { id: 'b', description: 'b', dependsOn: ['a'] },
+      { id: 'c', description: 'c' },
+    ]);
+
+    it('should keep completed and active nodes and retry the rest', () => {
+      const state = createPipelineState(pipeline);
+      state.nodes.a = { status: 'completed', workItemId: 'w-a' };
+      state.nodes.b = { status: 'failed', workItemId: 'w-b' };
+      state.nodes.c = { status: 'in-progress', workItemId: 'w-c' };
+
+      const resumed = resumePipelineState(pipeline, state);
+
+      expect(resumed.nodes.a?.status).toBe('completed');
+      expect(resumed.nodes.b).toEqual({ status: 'waiting', attempts: 1 });
+      expect(resumed.nodes.c?.status).toBe('in-progress');
+    });
+
+    it('should use a fresh task ID when retrying a node with an explicit one', () => {
+      const withTaskId = buildPipeline([{ id: 'a', description: 'a', taskId: 'nightly-a' }]);
+      const state = createPipelineState(withTaskId);
+      const node = withTaskId.nodes[0]!;
+
+      expect(nodeTaskId(node, state.nodes.a!)).toBe('nightly-a');
+
+      state.nodes.a = { status: 'failed', taskId: 'nightly-a', attempts: 1 };
+      const resumed = resumePipelineState(withTaskId, state);
+
+      expect(nodeTaskId(node, resumed.nodes.a!)).not.toBe('nightly-a');
+    });
+
+    it('should refuse state from a different pipeline', () => {
+      const other = buildPipeline([{ id: 'z', description: 'z' }]);
+      expect(() => resumePipelineState(pipeline, createPipelineState(other))).toThrow(
+        /different pipeline/
+      );
+    });
+  });
+});
+
+describe('loadPipelineState', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should name the state file and suggest --fresh when it is corrupt', () => {
+    dir = mkdtempSync(join(tmpdir(), 'shuttle-pipeline-'));
+    const path = join(dir, 'pipeline.yaml.state.json');
+    writeFileSync(path, '{"nodes": ');
+
+    expect(() => loadPipelineState(path)).toThrow(`State file ${path} is not valid JSON`);
+    expect(() => loadPipelineState(path)).toThrow('use --fresh to start over');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for polling helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createBackoff, sleep } from '../utils/polling.js';
+
+describe('createBackoff', () => {
+  it('should grow while nothing changes, up to the maximum', () => {
+    const backoff = createBackoff({ initialMs: 1000, maxMs: 3000, factor: 2 });
+
+    expect(backoff.next(false)).toBe(2000);
+    expect(backoff.next(false)).toBe(3000);
+    expect(backoff.next(false)).toBe(3000);
+  });
+
+  it('should return to the initial interval after a change', () => {
+    const backoff = createBackoff({ initialMs: 1000, maxMs: 10000 });
+
+    backoff.next(false);
+    backoff.next(false);
+    expect(backoff.next(true)).toBe(1000);
+  });
+
+  it('should reset explicitly', () => {
+    const backoff = createBackoff({ initialMs: 500, maxMs: 10000, factor: 2 });
+
+    backoff.next(false);
+    backoff.reset();
+    expect(backoff.next(false)).toBe(1000);
+  });
+});
+
+describe('sleep', () => {
+  it('should remove its abort listener once the timer fires', async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await sleep(1, controller.signal);
+
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('should resolve early when aborted', async () => {
+    const controller = new AbortController();
+    const sleeping = sleep(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(sleeping).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for short ID resolution
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WeftAPIClient } from '../api/client.js';
+import type { Agent, Target } from '../api/models.js';
+import {
+  resolveId,
+  resolveAgent,
+  lookupAgent,
+  resolveTarget,
+  resolveWorkId,
+  fetchTarget,
+  isFullId,
+  AmbiguousIdError,
+  IdNotFoundError,
+} from '../utils/resolve-id.js';
+
+const WORK_ID = '3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+
+function agent(guid: string, handle?: string): Agent {
+  return { guid, handle, agentType: 'claude-code', status: 'online' };
+}
+
+function target(id: string, name: string): Target {
+  return { id, name, agentType: 'claude-code', mechanism: 'local', status: 'active' };
+}
+
+describe('resolveId', () => {
+  const items = [{ id: 'abc123' }, { id: 'abd456' }, { id: 'abc' }];
+  const options = { kind: 'thing', id: (item: { id: string }) => item.id };
+
+  it('should prefer an exact ID over a prefix', () => {
+    expect(resolveId(items, 'abc', options)).toEqual({ id: 'abc' });
+    expect(resolveId(items, 'abd', options)).toEqual({ id: 'abd456' });
+  });
+
+  it('should list the candidates of an ambiguous prefix', () => {
+    expect(() => resolveId(items, 'ab', options)).toThrow(AmbiguousIdError);
+    expect(() => resolveId(items, 'ab', options)).toThrow('"ab" matches 3 things: abc123, abd456, abc');
+  });
+
+  it('should cap the candidate list', () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({ id: `x${i}` }));
+
+    expect(() => resolveId(many, 'x', options)).toThrow(/x9, and 2 more$/);
+  });
+
+  it('should fail when nothing matches', () => {
+    expect(() => resolveId(items, 'zz', options)).toThrow(IdNotFoundError);
+    expect(() => resolveId(items, 'zz', options)).toThrow('No thing matches "zz"');
+  });
+});
+
+describe('resolveAgent', () => {
+  const agents = [
+    agent('3f2a9c1e-0000', 'Home-Claude'),
+    agent('3f2b0000-0000', 'ci-copilot'),
+    agent('9d00aaaa-0000'),
+  ];
+
+  it('should match a GUID, a handle or a unique prefix', () => {
+    expect(resolveAgent(agents, '9d00aaaa-0000').guid).toBe('9d00aaaa-0000');
+    expect(resolveAgent(agents, 'home-claude').guid).toBe('3f2a9c1e-0000');
+    expect(resolveAgent(agents, '3f2a').guid).toBe('3f2a9c1e-0000');
+    expect(resolveAgent(agents, 'ci-').guid).toBe('3f2b0000-0000');
+  });
+
+  it('should describe ambiguous agents with their handles', () => {
+    expect(() => resolveAgent(agents, '3f2')).toThrow(
+      '"3f2" matches 2 agents: 3f2a9c1e-0000 (Home-Claude), 3f2b0000-0000 (ci-copilot)'
+    );
+  });
+});
+
+describe('lookupAgent', () => {
+  const agents = [agent(WORK_ID, 'home-claude')];
+
+  it('should return registered agents', () => {
+    expect(lookupAgent(agents, 'home-claude')).toEqual({ guid: WORK_ID, agent: agents[0] });
+  });
+
+  it('should return an unregistered complete GUID without an agent', () => {
+    const guid = '9d00aaaa-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+
+    expect(lookupAgent(agents, guid)).toEqual({ guid });
+    expect(() => lookupAgent(agents, '9d00')).toThrow('No agent matches "9d00"');
+  });
+});
+
+describe('resolveTarget', () => {
+  it('should match names before prefixes', () => {
+    const targets = [target('t-1', 'home'), target('t-2', 'home-gpu')];
+
+    expect(resolveTarget(targets, 'home').id).toBe('t-1');
+    expect(resolveTarget(targets, 'home-').id).toBe('t-2');
+    expect(() => resolveTarget(targets, 'ho')).toThrow('"ho" matches 2 targets: home, home-gpu');
+  });
+});
+
+describe('isFullId', () => {
+  it('should recognise complete UUIDs only', () => {
+    expect(isFullId(WORK_ID)).toBe(true);
+    expect(isFullId(WORK_ID.slice(0, 12))).toBe(false);
+  });
+});
+
+describe('resolveWorkId', () => {
+  function createClient(ids: string[]) {
+    return {
+      listWork: vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        data: { workItems: ids.map((id) => ({ id, status: 'pending' })) },
+      })),
+      getWork: vi.fn(async () => ({ ok: false, status: 404, error: 'Not found' })),
+    } as unknown as WeftAPIClient & { listWork: ReturnType<typeof vi.fn> };
+  }
+
+  it('should use full IDs without listing', async () => {
+    const client = createClient([]);
+
+    expect(await resolveWorkId(client, WORK_ID)).toBe(WORK_ID);
+    expect(client.listWork).not.toHaveBeenCalled();
+  });
+
+  it('should expand a prefix', async () => {
+    expect(await resolveWorkId(createClient([WORK_ID, 'ffff-0000']), '3f2a9c1e')).toBe(WORK_ID);
+  });
+
+  it('should fail when neither the list nor a lookup finds it', async () => {
+    await expect(resolveWorkId(createClient([]), '3f2a')).rejects.toThrow('No work item matches "3f2a"');
+  });
+});
+
+describe('fetchTarget', () => {
+  it('should fall back to a direct lookup for unlisted targets', async () => {
+    const disabled = target('t-9', 'old-box');
+    const client = {
+      listTargets: vi.fn(async () => ({ ok: true, status: 200, data: { targets: [] } })),
+      getTarget: vi.fn(async () => ({ ok: true, status: 200, data: disabled })),
+    } as unknown as WeftAPIClient;
+
+    expect(await fetchTarget(client, 'old-box')).toBe(disabled);
+  });
+});
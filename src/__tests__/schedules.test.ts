@@ -0,0 +1,161 @@
+/**
+ * Tests for scheduled work
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { WeftAPIClient } from '../api/client.js';
+import {
+  addSchedule,
+  loadSchedules,
+  recordScheduleRun,
+  removeSchedule,
+  resolveSchedule,
+  runSchedule,
+  updateSchedule,
+  type Schedule,
+} from '../utils/schedules.js';
+
+const work = { description: 'Nightly dependency bump', boundary: 'personal', capability: 'typescript' };
+
+describe('Schedule storage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shuttle-schedules-'));
+    path = join(dir, 'schedules.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should add, update and remove schedules', () => {
+    const nightly = addSchedule({ name: 'nightly', cron: '0 2 * * *', work }, path);
+    addSchedule({ name: 'weekly', cron: '@weekly', work }, path);
+
+    updateSchedule(nightly.id, (schedule) => (schedule.paused = true), path);
+    expect(loadSchedules(path).map((schedule) => [schedule.name, schedule.paused])).toEqual([
+      ['nightly', true],
+      ['weekly', false],
+    ]);
+
+    removeSchedule(nightly.id, path);
+    expect(loadSchedules(path).map((schedule) => schedule.name)).toEqual(['weekly']);
+  });
+
+  it('should reject invalid cron expressions and duplicate names', () => {
+    expect(() => addSchedule({ name: 'bad', cron: '0 25 * * *', work }, path)).toThrow('out of range for hour');
+
+    addSchedule({ name: 'nightly', cron: '0 2 * * *', work }, path);
+    expect(() => addSchedule({ name: 'nightly', cron: '0 3 * * *', work }, path)).toThrow(
+      'A schedule named "nightly" already exists'
+    );
+  });
+
+  it('should resolve schedules by name or ID prefix', () => {
+    const nightly = addSchedule({ name: 'nightly', cron: '0 2 * * *', work }, path);
+    const schedules = loadSchedules(path);
+
+    expect(resolveSchedule(schedules, 'nightly').id).toBe(nightly.id);
+    expect(resolveSchedule(schedules, nightly.id.slice(0, 6)).id).toBe(nightly.id);
+  });
+
+  it('should only remember submitted work items for the overlap check', () => {
+    const nightly = addSchedule({ name: 'nightly', cron: '0 2 * * *', work }, path);
+    const at = '2025-01-10T02:00:00.000Z';
+
+    recordScheduleRun(nightly.id, { at, trigger: 'cron', outcome: 'submitted', workItemId: 'work-1' }, path);
+    const skipped = recordScheduleRun(
+      nightly.id,
+      { at, trigger: 'cron', outcome: 'skipped', workItemId: 'work-1', message: 'still running' },
+      path
+    );
+
+    expect(skipped.lastRun?.outcome).toBe('skipped');
+    expect(skipped.lastWorkItemId).toBe('work-1');
+  });
+});
+
+describe('runSchedule', () => {
+  const schedule: Schedule = {
+    id: 'sched-1',
+    name: 'nightly',
+    cron: '0 2 * * *',
+    paused: false,
+    work: { ...work, contextData: { repo: 'loom' } },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    lastWorkItemId: 'work-1',
+  };
+  const now = new Date('2025-01-10T02:00:00.000Z');
+
+  function createClient(previousStatus: string) {
+    return {
+      getWork: vi.fn().mockResolvedValue({ ok: true, status: 200, data: { id: 'work-1', status: previousStatus } }),
+      submitWork: vi.fn().mockResolvedValue({ ok: true, status: 201, data: { workItemId: 'work-2' } }),
+    } as unknown as WeftAPIClient & {
+      getWork: ReturnType<typeof vi.fn>;
+      submitWork: ReturnType<typeof vi.fn>;
+    };
+  }
+
+  it('should skip while the previous work item is active', async () => {
+    const client = createClient('in-progress');
+
+    expect(await runSchedule(client, schedule, 'cron', now)).toEqual({
+      at: now.toISOString(),
+      trigger: 'cron',
+      outcome: 'skipped',
+      workItemId: 'work-1',
+      message: 'previous work item is still in-progress',
+    });
+    expect(client.submitWork).not.toHaveBeenCalled();
+  });
+
+  it('should submit once the previous work item has finished', async () => {
+    const client = createClient('completed');
+
+    expect(await runSchedule(client, schedule, 'manual', now)).toMatchObject({
+      outcome: 'submitted',
+      workItemId: 'work-2',
+    });
+    expect(client.submitWork).toHaveBeenCalledWith(
+      expect.objectContaining({
+        description: 'Nightly dependency bump',
+        contextData: { repo: 'loom', scheduleId: 'sched-1', scheduledAt: now.toISOString() },
+      })
+    );
+  });
+
+  it('should skip when the previous work item cannot be checked', async () => {
+    const client = createClient('completed');
+    client.getWork.mockResolvedValue({ ok: false, status: 503, error: 'Service Unavailable' });
+
+    expect(await runSchedule(client, schedule, 'cron', now)).toMatchObject({
+      outcome: 'skipped',
+      workItemId: 'work-1',
+      message: 'could not check the previous work item: Service Unavailable',
+    });
+    expect(client.submitWork).not.toHaveBeenCalled();
+  });
+
+  it('should submit when the previous work item no longer exists', async () => {
+    const client = createClient('completed');
+    client.getWork.mockResolvedValue({ ok: false, status: 404, error: 'Not Found' });
+
+    expect(await runSchedule(client, schedule, 'cron', now)).toMatchObject({ outcome: 'submitted' });
+  });
+
+  it('should report failed submissions', async () => {
+    const client = createClient('completed');
+    client.submitWork.mockResolvedValue({ ok: false, status: 503, error: 'Service Unavailable' });
+
+    expect(await runSchedule(client, schedule, 'cron', now)).toMatchObject({
+      outcome: 'failed',
+      message: 'Service Unavailable',
+    });
+  });
+});
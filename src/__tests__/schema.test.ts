@@ -0,0 +1,54 @@
+/**
+ * Tests for response schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SchemaError,
+  array,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from '../api/schema.js';
+
+describe('Schema', () => {
+  const itemSchema = object<{ id: string; tags?: string[]; size?: number }>({
+    id: string(),
+    tags: optional(array(string())),
+    size: optional(number()),
+  });
+
+  it('should accept matching values and keep extra fields', () => {
+    expect(itemSchema({ id: 'a', tags: ['x'], extra: true })).toEqual({ id: 'a', tags: ['x'], extra: true });
+  });
+
+  it('should treat null optional fields as missing', () => {
+    expect(itemSchema({ id: 'a', size: null })).toEqual({ id: 'a' });
+  });
+
+  it('should report the path of a nested mismatch', () => {
+    const listSchema = object<{ items: { id: string; tags?: string[]; size?: number }[] }>({
+      items: array(itemSchema),
+    });
+
+    expect(() => listSchema({ items: [{ id: 'a' }, { id: 'b', tags: ['x', 3] }] })).toThrow(
+      'items[1].tags[1]: expected string, got number'
+    );
+  });
+
+  it('should describe the root and unexpected containers', () => {
+    expect(() => itemSchema([])).toThrow('(root): expected object, got array');
+    expect(() => record(number())({ a: 1, b: 'two' })).toThrow('b: expected number, got string "two"');
+  });
+
+  it('should restrict literals to known values', () => {
+    const status = literal(['open', 'closed'] as const);
+
+    expect(status('open')).toBe('open');
+    expect(() => status('opened', 'status')).toThrow(SchemaError);
+    expect(() => status('opened', 'status')).toThrow('status: expected one of open|closed, got string "opened"');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for Server-Sent Events parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvents, type ServerSentEvent } from '../api/sse.js';
+
+async function collect(chunks: string[]): Promise<ServerSentEvent[]> {
+  const encoder = new TextEncoder();
+  async function* body() {
+    for (const chunk of chunks) {
+      yield encoder.encode(chunk);
+    }
+  }
+
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(body())) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('parseServerSentEvents', () => {
+  it('should parse default message events', async () => {
+    const events = await collect(['data: {"status":"pending"}\n\n']);
+    expect(events).toEqual([{ event: 'message', data: '{"status":"pending"}', id: undefined }]);
+  });
+
+  it('should parse named events with ids', async () => {
+    const events = await collect(['event: update\nid: 7\ndata: x\n\n']);
+    expect(events).toEqual([{ event: 'update', data: 'x', id: '7' }]);
+  });
+
+  it('should join multi-line data', async () => {
+    const events = await collect(['data: a\ndata: b\n\n']);
+    expect(events[0]?.data).toBe('a\nb');
+  });
+
+  it('should skip comments and events without data', async () => {
+    const events = await collect([': keepalive\n\nevent: ping\n\ndata: x\n\n']);
+    expect(events.map((e) => e.data)).toEqual(['x']);
+  });
+
+  it('should handle events split across chunks and CRLF line endings', async () => {
+    const events = await collect(['data: hel', 'lo\r', '\n\r\n', 'data: world\r\n\r\n']);
+    expect(events.map((e) => e.data)).toEqual(['hello', 'world']);
+  });
+
+  it('should discard a final event without a trailing blank line', async () => {
+    const events = await collect(['data: done\n\n', 'data: partial\n']);
+    expect(events.map((e) => e.data)).toEqual(['done']);
+  });
+});
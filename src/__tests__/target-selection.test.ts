@@ -0,0 +1,87 @@
+/**
+ * Tests for spin-up target selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Target } from '../api/models.js';
+import { selectTargets, ineligibilityReason } from '../utils/target-selection.js';
+
+function target(name: string, fields: Partial<Target> = {}): Target {
+  return {
+    id: name,
+    name,
+    agentType: 'claude-code',
+    mechanism: 'local',
+    status: 'active',
+    boundaries: ['personal'],
+    ...fields,
+  };
+}
+
+const targets = [
+  target('busy', { useCount: 9, lastUsedAt: '2026-01-03T00:00:00Z' }),
+  target('fresh', { useCount: 0 }),
+  target('older', { useCount: 4, lastUsedAt: '2026-01-01T00:00:00Z' }),
+  target('off', { status: 'disabled' }),
+  target('sick', { healthStatus: 'unhealthy' }),
+  target('corp', { boundaries: ['corporate'] }),
+];
+
+describe('ineligibilityReason', () => {
+  it('should explain why a target is skipped', () => {
+    expect(ineligibilityReason(targets[3]!)).toBe('disabled');
+    expect(ineligibilityReason(targets[4]!)).toBe('unhealthy');
+    expect(ineligibilityReason(targets[5]!, 'personal')).toBe('does not support boundary "personal"');
+    expect(ineligibilityReason(targets[0]!, 'personal')).toBeUndefined();
+  });
+
+  it('should treat a target without boundaries as supporting every boundary', () => {
+    expect(ineligibilityReason(target('open', { boundaries: undefined }), 'corporate')).toBeUndefined();
+    expect(ineligibilityReason(target('open', { boundaries: [] }), 'corporate')).toBeUndefined();
+  });
+});
+
+describe('selectTargets', () => {
+  it('should filter by enabled state, health and boundary', () => {
+    const selection = selectTargets(targets, { strategy: 'lru', boundary: 'personal', count: 10 });
+
+    expect(selection.candidates.map((t) => t.name)).toEqual(['busy', 'fresh', 'older']);
+    expect(selection.skipped.map((choice) => choice.target.name)).toEqual(['off', 'sick', 'corp']);
+  });
+
+  it('should prefer never-used, then least recently used targets', () => {
+    const { selected } = selectTargets(targets, { strategy: 'lru', count: 2 });
+
+    expect(selected.map((choice) => choice.target.name)).toEqual(['fresh', 'corp']);
+    expect(selected[0]!.reason).toBe('least recently used (never used)');
+  });
+
+  it('should rank by use count', () => {
+    const { selected } = selectTargets(targets.slice(0, 3), { strategy: 'least-used', count: 3 });
+
+    expect(selected.map((choice) => choice.target.name)).toEqual(['fresh', 'older', 'busy']);
+    expect(selected[1]!.reason).toBe('lowest use count (4)');
+  });
+
+  it('should rank by latency and skip untested targets', () => {
+    const latencies = new Map([
+      ['busy', 40],
+      ['older', 12],
+    ]);
+    const selection = selectTargets(targets.slice(0, 3), { strategy: 'fastest', latencies });
+
+    expect(selection.selected).toEqual([{ target: targets[2], reason: 'fastest health check (12ms)' }]);
+    expect(selection.skipped).toEqual([{ target: targets[1], reason: 'failed health check' }]);
+  });
+
+  it('should pick distinct targets at random', () => {
+    const { selected } = selectTargets(targets.slice(0, 3), { strategy: 'random', count: 3, random: () => 0 });
+
+    expect(new Set(selected.map((choice) => choice.target.name)).size).toBe(3);
+    expect(selected.map((choice) => choice.target.name)).toEqual(['fresh', 'older', 'busy']);
+  });
+
+  it('should return fewer targets than requested when not enough are eligible', () => {
+    expect(selectTargets(targets, { strategy: 'lru', boundary: 'corporate', count: 3 }).selected).toHaveLength(1);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for declarative target specs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Target } from '../api/models.js';
+import {
+  validateTargetSpecs,
+  planTargetChanges,
+  targetInputFromSpec,
+  targetUpdatesFromPlan,
+  specFromTarget,
+} from '../utils/target-spec.js';
+
+const existing: Target = {
+  id: 't1',
+  name: 'home-claude',
+  agentType: 'claude-code',
+  mechanism: 'ssh',
+  status: 'active',
+  capabilities: ['typescript', 'python'],
+  boundaries: ['personal'],
+  config: { mechanism: 'ssh', host: 'home.example.com', user: 'mike' },
+};
+
+describe('validateTargetSpecs', () => {
+  it('should accept a list or a targets key', () => {
+    const spec = { name: 'a', agentType: 'claude-code', mechanism: 'local', config: { command: 'run' } };
+
+    expect(validateTargetSpecs([spec]).specs).toHaveLength(1);
+    expect(validateTargetSpecs({ targets: [spec] }).specs).toHaveLength(1);
+  });
+
+  it('should report every problem with the target name', () => {
+    const { specs, errors } = validateTargetSpecs([
+      { name: 'ok', agentType: 'claude-code', mechanism: 'ssh' },
+      { name: 'ok', agentType: 'claude-code', mechanism: 'ftp', tags: 'x', colour: 'red' },
+    ]);
+
+    expect(specs).toHaveLength(1);
+    expect(errors).toEqual([
+      'ok: unknown field(s): colour',
+      'ok: name is listed more than once',
+      'ok: mechanism must be one of ssh, local, github-actions, webhook, kubernetes',
+      'ok: tags must be a list of strings',
+    ]);
+  });
+
+  it('should reject documents without a list', () => {
+    expect(validateTargetSpecs({ name: 'a' }).errors).toHaveLength(1);
+  });
+});
+
+describe('planTargetChanges', () => {
+  const spec = {
+    name: 'home-claude',
+    agentType: 'claude-code' as const,
+    mechanism: 'ssh' as const,
+    config: { user: 'mike', host: 'home.example.com' },
+  };
+
+  it('should plan creates for new targets and no-ops for matching ones', () => {
+    const plan = planTargetChanges(
+      [spec, { ...spec, name: 'new-target' }],
+      [existing]
+    );
+
+    expect(plan.map((entry) => [entry.action, entry.name])).toEqual([
+      ['no-op', 'home-claude'],
+      ['create', 'new-target'],
+    ]);
+  });
+
+  it('should ignore capability order and unmanaged fields', () => {
+    const plan = planTargetChanges([{ ...spec, capabilities: ['python', 'typescript'] }], [existing]);
+
+    expect(plan[0]!.action).toBe('no-op');
+  });
+
+  it('should diff config, lists and the enabled state', () => {
+    const plan = planTargetChanges(
+      [{ ...spec, config: { ...spec.config, port: 2222 }, boundaries: ['personal', 'open-source'], enabled: false }],
+      [existing]
+    );
+
+    expect(plan[0]!.action).toBe('update');
+    expect(plan[0]!.changes).toEqual([
+      { field: 'config.port', before: undefined, after: 2222 },
+      { field: 'boundaries', before: ['personal'], after: ['personal', 'open-source'] },
+      { field: 'enabled', before: true, after: false },
+    ]);
+    expect(targetUpdatesFromPlan(plan[0]!)).toEqual({
+      mechanism: 'ssh',
+      config: { user: 'mike', host: 'home.example.com', port: 2222, mechanism: 'ssh' },
+      boundaries: ['personal', 'open-source'],
+    });
+  });
+
+  it('should leave config alone when the spec has none', () => {
+    const { specs } = validateTargetSpecs([
+      { name: 'home-claude', agentType: 'claude-code', mechanism: 'ssh', tags: ['home'] },
+    ]);
+    const plan = planTargetChanges(specs, [existing]);
+
+    expect(specs[0]!.config).toBeUndefined();
+    expect(plan[0]!.changes).toEqual([{ field: 'tags', before: undefined, after: ['home'] }]);
+    expect(targetUpdatesFromPlan(plan[0]!)).toEqual({ tags: ['home'] });
+  });
+
+  it('should keep unmanaged config when only the mechanism changes', () => {
+    const plan = planTargetChanges([{ name: 'home-claude', agentType: 'claude-code', mechanism: 'local' }], [existing]);
+
+    expect(targetUpdatesFromPlan(plan[0]!)).toEqual({
+      mechanism: 'local',
+      config: { host: 'home.example.com', user: 'mike', mechanism: 'local' },
+    });
+  });
+
+  it('should only delete unlisted targets when pruning', () => {
+    expect(planTargetChanges([], [existing])).toEqual([]);
+    expect(planTargetChanges([], [existing], { prune: true })).toEqual([
+      { action: 'delete', name: 'home-claude', changes: [], target: existing },
+    ]);
+  });
+});
+
+describe('targetInputFromSpec', () => {
+  it('should include the mechanism in the config', () => {
+    expect(
+      targetInputFromSpec({ name: 'a', agentType: 'claude-code', mechanism: 'local', config: { command: 'run' } })
+    ).toMatchObject({ capabilities: [], config: { command: 'run', mechanism: 'local' } });
+  });
+});
+
+describe('specFromTarget', () => {
+  it('should produce a spec that plans as a no-op', () => {
+    const spec = specFromTarget(existing);
+
+    expect(spec).toEqual({
+      name: 'home-claude',
+      agentType: 'claude-code',
+      mechanism: 'ssh',
+      config: { host: 'home.example.com', user: 'mike' },
+      capabilities: ['typescript', 'python'],
+      boundaries: ['personal'],
+      enabled: true,
+    });
+    expect(validateTargetSpecs([spec]).errors).toEqual([]);
+    expect(planTargetChanges([spec], [existing])[0]!.action).toBe('no-op');
+  });
+
+  it('should reject redacted config values when read back', () => {
+    const spec = { ...specFromTarget(existing), config: { host: 'h', token: '[REDACTED]' } };
+
+    expect(validateTargetSpecs([spec]).errors).toEqual([
+      'home-claude: config.token was redacted on export; fill in the real value',
+    ]);
+  });
+});
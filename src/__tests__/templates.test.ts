@@ -0,0 +1,93 @@
+/**
+ * Tests for work templates
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  deleteTemplate,
+  listTemplates,
+  loadTemplate,
+  renderTemplate,
+  saveTemplate,
+  templateVariables,
+  validateTemplate,
+  type WorkTemplate,
+} from '../utils/templates.js';
+
+const triage: WorkTemplate = {
+  name: 'triage',
+  description: 'Triage new issues in {{repo}}',
+  boundary: 'personal',
+  capability: 'github',
+  priority: 6,
+  contextData: { repo: '{{ repo }}', labels: ['needs-{{label}}'], limit: 20 },
+};
+
+describe('templateVariables', () => {
+  it('should find placeholders in the description and context data', () => {
+    expect(templateVariables(triage)).toEqual(['label', 'repo']);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should interpolate every placeholder', () => {
+    const rendered = renderTemplate(triage, { repo: 'loom/shuttle', label: 'triage' });
+
+    expect(rendered.description).toBe('Triage new issues in loom/shuttle');
+    expect(rendered.contextData).toEqual({ repo: 'loom/shuttle', labels: ['needs-triage'], limit: 20 });
+  });
+
+  it('should require every variable before submission', () => {
+    expect(() => renderTemplate(triage, { repo: 'x' })).toThrow('Missing template variable(s): label');
+  });
+
+  it('should reject variables the template does not use', () => {
+    expect(() => renderTemplate(triage, { repo: 'x', label: 'y', rpo: 'z' })).toThrow(
+      'Unknown template variable(s): rpo (template "triage" uses label, repo)'
+    );
+  });
+});
+
+describe('validateTemplate', () => {
+  it('should report every problem', () => {
+    expect(validateTemplate({ name: 't', priority: 0, contextData: [], extra: 1 })).toEqual([
+      'unknown field(s): extra',
+      'description is required',
+      'priority must be an integer between 1 and 10',
+      'contextData must be an object',
+    ]);
+  });
+});
+
+describe('Template storage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shuttle-templates-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save, list, load and delete templates', () => {
+    saveTemplate(triage, dir);
+    saveTemplate({ name: 'bump-deps', description: 'Bump dependencies' }, dir);
+
+    expect(listTemplates(dir).map((template) => template.name)).toEqual(['bump-deps', 'triage']);
+    expect(loadTemplate('triage', dir)).toEqual(triage);
+
+    deleteTemplate('triage', dir);
+    expect(() => loadTemplate('triage', dir)).toThrow('Template "triage" not found');
+  });
+
+  it('should reject invalid names and files', () => {
+    expect(() => saveTemplate({ ...triage, name: '../evil' }, dir)).toThrow('Invalid template name');
+
+    writeFileSync(join(dir, 'broken.yaml'), 'boundary: 3\n');
+    expect(() => loadTemplate('broken', dir)).toThrow('Template "broken" is invalid: description is required');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for waiting on spun-up agents
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WeftAPIClient } from '../api/client.js';
+import type { Agent } from '../api/models.js';
+import { assignAgents, matchesExpectation, waitForAgents, waitForAgentsGone } from '../utils/wait-for-agent.js';
+
+function agent(guid: string, fields: Partial<Agent> = {}): Agent {
+  return { guid, agentType: 'claude-code', status: 'online', capabilities: ['typescript'], ...fields };
+}
+
+describe('matchesExpectation', () => {
+  it('should require an online agent of the expected type and capabilities', () => {
+    const expectation = { agentType: 'claude-code', capabilities: ['typescript'] };
+
+    expect(matchesExpectation(agent('a'), expectation)).toBe(true);
+    expect(matchesExpectation(agent('a', { status: 'offline' }), expectation)).toBe(false);
+    expect(matchesExpectation(agent('a', { agentType: 'copilot-cli' }), expectation)).toBe(false);
+    expect(matchesExpectation(agent('a', { capabilities: [] }), expectation)).toBe(false);
+  });
+});
+
+describe('assignAgents', () => {
+  it('should ignore known agents and prefer hinted ones', () => {
+    const agents = [agent('old'), agent('new-1', { handle: 'worker' }), agent('new-2', { hostname: 'home-claude-7' })];
+
+    const assigned = assignAgents(agents, [{ hints: ['home-claude'] }], [undefined], new Set(['old']));
+
+    expect(assigned.map((a) => a?.guid)).toEqual(['new-2']);
+  });
+
+  it('should assign each agent once', () => {
+    const agents = [agent('new-1'), agent('new-2')];
+
+    const assigned = assignAgents(agents, [{}, {}, {}], [undefined, undefined, undefined], new Set());
+
+    expect(assigned.map((a) => a?.guid)).toEqual(['new-1', 'new-2', undefined]);
+  });
+});
+
+describe('waitForAgents', () => {
+  it('should poll until a new agent registers', async () => {
+    const polls = [[agent('old')], [agent('old')], [agent('old'), agent('new')]];
+    let poll = 0;
+    const client = {
+      listAgents: vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        data: { agents: polls[Math.min(poll++, polls.length - 1)] },
+      })),
+    } as unknown as WeftAPIClient;
+
+    const found = await waitForAgents(client, [{ agentType: 'claude-code' }], {
+      knownGuids: new Set(['old']),
+      timeoutMs: 1000,
+      intervalMs: 1,
+    });
+
+    expect(found.map((a) => a?.guid)).toEqual(['new']);
+  });
+
+  it('should give up after the timeout', async () => {
+    const client = {
+      listAgents: vi.fn(async () => ({ ok: true, status: 200, data: { agents: [] } })),
+    } as unknown as WeftAPIClient;
+
+    const found = await waitForAgents(client, [{}], { knownGuids: new Set(), timeoutMs: 20, intervalMs: 5 });
+
+    expect(found).toEqual([undefined]);
+  });
+});
+
+describe('waitForAgentsGone', () => {
+  it('should resolve once the agents have left or gone offline', async () => {
+    const polls = [
+      [agent('a', { currentTaskCount: 2 }), agent('b')],
+      [agent('a', { status: 'offline' }), agent('b', { currentTaskCount: 1 })],
+      [],
+    ];
+    let poll = 0;
+    const client = {
+      listAgents: vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        data: { agents: polls[Math.min(poll++, polls.length - 1)] },
+      })),
+    } as unknown as WeftAPIClient;
+
+    const taskCounts: number[][] = [];
+
+    const remaining = await waitForAgentsGone(client, ['a', 'b'], {
+      timeoutMs: 1000,
+      intervalMs: 1,
+      onPoll: (present) => taskCounts.push(present.map((a) => a.currentTaskCount || 0)),
+    });
+
+    expect(remaining).toEqual([]);
+    expect(taskCounts).toEqual([[2, 0], [1], []]);
+  });
+
+  it('should report agents still present at the timeout', async () => {
+    const client = {
+      listAgents: vi.fn(async () => ({ ok: true, status: 200, data: { agents: [agent('a')] } })),
+    } as unknown as WeftAPIClient;
+
+    expect(await waitForAgentsGone(client, ['a', 'b'], { timeoutMs: 20, intervalMs: 5 })).toEqual(['a']);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for work item retries
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkItem } from '../api/models.js';
+import { checkBulkRetryOverrides, failedWorkToRetry, retrySubmission } from '../utils/work-retry.js';
+
+const now = new Date('2025-01-10T12:00:00.000Z').getTime();
+
+function failed(id: string, minutesAgo: number, extra: Partial<WorkItem> = {}): WorkItem {
+  return {
+    id,
+    status: 'failed',
+    description: `Task ${id}`,
+    boundary: 'personal',
+    capability: 'typescript',
+    priority: 7,
+    deadline: '2025-01-09T00:00:00.000Z',
+    error: { message: 'Agent crashed', recoverable: true, occurredAt: new Date(now - minutesAgo * 60000).toISOString() },
+    ...extra,
+  } as WorkItem;
+}
+
+describe('retrySubmission', () => {
+  it('should resubmit the original fields linked to the original', () => {
+    const submission = retrySubmission(failed('work-1', 5, { contextData: { repo: 'loom' } }));
+
+    expect(submission).toEqual({
+      description: 'Task work-1',
+      boundary: 'personal',
+      capability: 'typescript',
+      priority: 7,
+      agentType: undefined,
+      deadline: undefined,
+      contextData: { repo: 'loom', retryOf: 'work-1', originalWorkItemId: 'work-1', retryAttempt: 1 },
+    });
+  });
+
+  it('should apply overrides and merge context', () => {
+    const submission = retrySubmission(failed('work-1', 5, { contextData: { repo: 'loom', branch: 'main' } }), {
+      capability: 'python',
+      priority: 9,
+      contextData: { branch: 'fix' },
+    });
+
+    expect(submission).toMatchObject({
+      capability: 'python',
+      priority: 9,
+      contextData: { repo: 'loom', branch: 'fix', retryOf: 'work-1' },
+    });
+  });
+
+  it('should keep pointing at the first work item across retries', () => {
+    const retry = failed('work-2', 5, {
+      contextData: { retryOf: 'work-1', originalWorkItemId: 'work-1', retryAttempt: 1 },
+    });
+
+    expect(retrySubmission(retry).contextData).toMatchObject({
+      retryOf: 'work-2',
+      originalWorkItemId: 'work-1',
+      retryAttempt: 2,
+    });
+  });
+
+  it('should only resubmit other finished work with anyStatus', () => {
+    const completed = { ...failed('work-1', 5), status: 'completed' } as WorkItem;
+
+    expect(() => retrySubmission(completed)).toThrow('Work item work-1 is completed, not failed');
+    expect(retrySubmission(completed, {}, { anyStatus: true }).contextData).toMatchObject({ retryOf: 'work-1' });
+  });
+
+  it('should refuse unfinished work and missing fields', () => {
+    expect(() => retrySubmission({ id: 'work-1', status: 'in-progress' } as WorkItem)).toThrow(
+      'Work item work-1 is still in-progress'
+    );
+    expect(() => retrySubmission(failed('work-1', 5, { boundary: undefined }))).toThrow(
+      'Work item work-1 has no boundary; pass --boundary'
+    );
+  });
+});
+
+describe('failedWorkToRetry', () => {
+  it('should select recent failures that have not been retried, newest first', () => {
+    const workItems = [
+      failed('old', 120),
+      failed('recent', 30),
+      failed('newest', 5),
+      failed('retried', 10),
+      { id: 'retry-of-retried', status: 'pending', contextData: { retryOf: 'retried' } } as WorkItem,
+      { id: 'done', status: 'completed' } as WorkItem,
+    ];
+
+    expect(failedWorkToRetry(workItems, { sinceMs: 60 * 60000, now }).map((item) => item.id)).toEqual([
+      'newest',
+      'recent',
+    ]);
+    expect(failedWorkToRetry(workItems, { now }).map((item) => item.id)).toEqual(['newest', 'recent', 'old']);
+  });
+
+  it('should leave out unrecoverable failures unless asked', () => {
+    const workItems = [
+      failed('recoverable', 5),
+      failed('fatal', 10, { error: { message: 'Bad input', recoverable: false } } as Partial<WorkItem>),
+    ];
+
+    expect(failedWorkToRetry(workItems, { now }).map((item) => item.id)).toEqual(['recoverable']);
+    expect(failedWorkToRetry(workItems, { includeUnrecoverable: true, now }).map((item) => item.id)).toEqual([
+      'recoverable',
+      'fatal',
+    ]);
+  });
+});
+
+describe('checkBulkRetryOverrides', () => {
+  it('should refuse a description shared by every retried item', () => {
+    expect(() => checkBulkRetryOverrides({ description: 'Same text' })).toThrow(
+      '--description cannot be combined with --all-failed'
+    );
+    expect(() => checkBulkRetryOverrides({ capability: 'python', contextData: { branch: 'fix' } })).not.toThrow();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for work item status helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkItem } from '../api/models.js';
+import {
+  finishedAt,
+  isTerminalStatus,
+  aggregateWorkOutcome,
+  WORK_OUTCOME_EXIT_CODES,
+  COMMAND_ERROR_EXIT_CODE,
+} from '../utils/work-status.js';
+
+describe('Work Status', () => {
+  describe('isTerminalStatus', () => {
+    it('should recognise terminal statuses', () => {
+      expect(isTerminalStatus('completed')).toBe(true);
+      expect(isTerminalStatus('failed')).toBe(true);
+      expect(isTerminalStatus('cancelled')).toBe(true);
+    });
+
+    it('should reject active and missing statuses', () => {
+      expect(isTerminalStatus('pending')).toBe(false);
+      expect(isTerminalStatus('in-progress')).toBe(false);
+      expect(isTerminalStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('finishedAt', () => {
+    it('should use the recorded completion or failure time only', () => {
+      const completed = { id: 'w1', status: 'completed', result: { completedAt: '2026-03-01T09:30:00Z' } };
+      const failed = { id: 'w2', status: 'failed', error: { message: 'boom', occurredAt: '2026-03-01T10:10:00Z' } };
+      const unrecorded = { id: 'w3', status: 'failed', assignedAt: '2026-03-01T09:00:00Z' };
+
+      expect(finishedAt(completed as WorkItem)).toBe('2026-03-01T09:30:00Z');
+      expect(finishedAt(failed as WorkItem)).toBe('2026-03-01T10:10:00Z');
+      expect(finishedAt(unrecorded as WorkItem)).toBeUndefined();
+    });
+  });
+
+  describe('aggregateWorkOutcome', () => {
+    it('should be completed only when everything completed', () => {
+      expect(aggregateWorkOutcome(['completed', 'completed'])).toBe('completed');
+    });
+
+    it('should prefer failed over cancelled and timeout', () => {
+      expect(aggregateWorkOutcome(['cancelled', 'failed', 'in-progress'])).toBe('failed');
+    });
+
+    it('should prefer cancelled over timeout', () => {
+      expect(aggregateWorkOutcome(['cancelled', 'pending'])).toBe('cancelled');
+    });
+
+    it('should report unfinished items as timeout', () => {
+      expect(aggregateWorkOutcome(['completed', 'in-progress'])).toBe('timeout');
+      expect(aggregateWorkOutcome(['completed', undefined])).toBe('timeout');
+    });
+  });
+
+  it('should use distinct exit codes per outcome', () => {
+    const codes = Object.values(WORK_OUTCOME_EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(WORK_OUTCOME_EXIT_CODES.completed).toBe(0);
+    expect(codes).not.toContain(COMMAND_ERROR_EXIT_CODE);
+  });
+});
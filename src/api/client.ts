@@ -5,11 +5,70 @@
  */
 
 import type { CLIConfiguration } from '@mdlopresti/loom-shared';
+import { parseServerSentEvents } from './sse.js';
+import {
+  backoffDelay,
+  parseRetryAfter,
+  DEFAULT_RETRY_OPTIONS,
+  IDEMPOTENT_METHODS,
+  MAX_RETRY_AFTER_MS,
+  RETRYABLE_STATUSES,
+  type RetryOptions,
+} from './retry.js';
+import { SchemaError, type Schema } from './schema.js';
+import {
+  agentListSchema,
+  agentSchema,
+  channelListSchema,
+  channelMessagesSchema,
+  healthStatusSchema,
+  operationResultSchema,
+  projectListSchema,
+  spinUpResultSchema,
+  statsSchema,
+  submitWorkResultSchema,
+  targetListSchema,
+  targetSchema,
+  targetTestResultSchema,
+  workItemListSchema,
+  workItemSchema,
+  type Agent,
+  type AgentFilter,
+  type AgentList,
+  type ChannelList,
+  type ChannelMessages,
+  type HealthStatus,
+  type OperationResult,
+  type ProjectList,
+  type SpinUpResult,
+  type Stats,
+  type SubmitWorkResult,
+  type Target,
+  type TargetFilter,
+  type TargetInput,
+  type TargetList,
+  type TargetTestResult,
+  type WorkFilter,
+  type WorkItem,
+  type WorkItemList,
+  type WorkSubmission,
+} from './models.js';
 
 export interface APIClientOptions {
   baseUrl: string;
-  token?: string;
+  /** API token, or a function returning it that is called on the first request */
+  token?: string | (() => string | undefined);
   timeout?: number;
+  /** Retry policy for transient failures; pass `{ retries: 0 }` to disable */
+  retry?: Partial<RetryOptions>;
+}
+
+interface RequestOptions<T> {
+  /** Schema the response body must match */
+  schema?: Schema<T>;
+  headers?: Record<string, string>;
+  /** Allow retries for a non-idempotent method (e.g. POST with an idempotency key) */
+  retryable?: boolean;
 }
 
 export interface APIResponse<T = unknown> {
@@ -19,15 +78,48 @@ export interface APIResponse<T = unknown> {
   error?: string;
 }
 
+/**
+ * Validate a response body, throwing a descriptive error on mismatch
+ */
+export function parseResponse<T>(data: unknown, schema: Schema<T>): T {
+  try {
+    return schema(data);
+  } catch (err) {
+    if (err instanceof SchemaError) {
+      throw new Error(`Coordinator returned unexpected shape: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Check a successful response against its schema
+ * A mismatch turns the response into an error so callers never see bad data.
+ */
+function validateResponse<T>(response: APIResponse<T>, schema: Schema<T>): APIResponse<T> {
+  if (!response.ok || response.data === undefined) {
+    return response;
+  }
+
+  try {
+    return { ...response, data: parseResponse(response.data, schema) };
+  } catch (err: any) {
+    return { ok: false, status: response.status, error: err.message };
+  }
+}
+
 /**
  * Create API client from CLI configuration
  */
-export function createAPIClient(config: CLIConfiguration): WeftAPIClient {
+export function createAPIClient(config: Pick<CLIConfiguration, 'apiUrl' | 'apiToken'>): WeftAPIClient {
   const baseUrl = config.apiUrl || 'http://localhost:3000';
+  const retries = process.env.LOOM_API_RETRIES;
   return new WeftAPIClient({
     baseUrl,
-    token: config.apiToken,
+    // Reading the token may run a credential helper, so wait until a request needs it
+    token: () => config.apiToken,
     timeout: 30000,
+    retry: retries !== undefined ? { retries: parseInt(retries, 10) || 0 } : undefined,
   });
 }
 
@@ -36,32 +128,80 @@ export function createAPIClient(config: CLIConfiguration): WeftAPIClient {
  */
 export class WeftAPIClient {
   private baseUrl: string;
-  private token?: string;
+  private token?: string | (() => string | undefined);
   private timeout: number;
+  private retry: RetryOptions;
 
   constructor(options: APIClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.token = options.token;
     this.timeout = options.timeout || 30000;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  }
+
+  /**
+   * Authorization headers, resolving a lazy token once
+   */
+  private authHeaders(): Record<string, string> {
+    if (typeof this.token === 'function') {
+      this.token = this.token();
+    }
+    return this.token ? { 'Authorization': `Bearer ${this.token}` } : {};
   }
 
   /**
    * Make an HTTP request to the Weft API
+   *
+   * Idempotent requests (and those marked retryable) are retried on network
+   * errors, timeouts and 429/502/503/504 responses, with jittered exponential
+   * backoff. A Retry-After header from the coordinator takes precedence.
    */
   private async request<T>(
     method: string,
     path: string,
-    body?: unknown
+    body?: unknown,
+    options: RequestOptions<T> = {}
   ): Promise<APIResponse<T>> {
+    const retryable = options.retryable ?? IDEMPOTENT_METHODS.includes(method);
+    const maxAttempts = retryable ? this.retry.retries + 1 : 1;
+    let response: APIResponse<T> & { retryAfterMs?: number } = { ok: false, status: 0 };
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      response = await this.requestOnce<T>(method, path, body, options.headers);
+
+      const transient = response.status === 0 || RETRYABLE_STATUSES.includes(response.status);
+      if (response.ok || !transient || attempt === maxAttempts - 1) {
+        break;
+      }
+
+      if (response.retryAfterMs !== undefined && response.retryAfterMs > MAX_RETRY_AFTER_MS) {
+        break;
+      }
+
+      const delay = response.retryAfterMs ?? backoffDelay(attempt, this.retry);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const { retryAfterMs: _retryAfterMs, ...result } = response;
+    return options.schema ? validateResponse(result, options.schema) : result;
+  }
+
+  /**
+   * Make a single HTTP request attempt
+   */
+  private async requestOnce<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    extraHeaders?: Record<string, string>
+  ): Promise<APIResponse<T> & { retryAfterMs?: number }> {
     const url = `${this.baseUrl}${path}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...extraHeaders,
+      ...this.authHeaders(),
     };
 
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
@@ -88,6 +228,7 @@ export class WeftAPIClient {
           ok: false,
           status: response.status,
           error: errorMessage,
+          retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
         };
       }
 
@@ -117,81 +258,156 @@ export class WeftAPIClient {
 
   // ============ Health ============
 
-  async health(): Promise<APIResponse<{ status: string }>> {
-    return this.request('GET', '/health');
+  async health(): Promise<APIResponse<HealthStatus>> {
+    return this.request('GET', '/health', undefined, { schema: healthStatusSchema });
   }
 
   // ============ Agents ============
 
-  async listAgents(filter?: {
-    type?: string;
-    status?: string;
-    capability?: string;
-  }): Promise<APIResponse<{ agents: any[]; count: number }>> {
+  async listAgents(filter?: AgentFilter): Promise<APIResponse<AgentList>> {
     const params = new URLSearchParams();
     if (filter?.type) params.set('type', filter.type);
     if (filter?.status) params.set('status', filter.status);
     if (filter?.capability) params.set('capability', filter.capability);
 
     const query = params.toString();
-    return this.request('GET', `/api/agents${query ? `?${query}` : ''}`);
+    return this.request('GET', `/api/agents${query ? `?${query}` : ''}`, undefined, {
+      schema: agentListSchema,
+    });
   }
 
-  async getAgent(guid: string): Promise<APIResponse<any>> {
-    return this.request('GET', `/api/agents/${guid}`);
+  async getAgent(guid: string): Promise<APIResponse<Agent>> {
+    return this.request('GET', `/api/agents/${guid}`, undefined, { schema: agentSchema });
   }
 
+  /**
+   * Ask an agent to shut down
+   * A graceful shutdown lets current work finish, for at most `gracePeriodMs`
+   * when given.
+   */
   async shutdownAgent(
     guid: string,
-    graceful = true
-  ): Promise<APIResponse<{ success: boolean; message: string }>> {
-    return this.request('POST', `/api/agents/${guid}/shutdown`, { graceful });
+    graceful = true,
+    gracePeriodMs?: number
+  ): Promise<APIResponse<OperationResult>> {
+    const body = gracePeriodMs !== undefined ? { graceful, gracePeriodMs } : { graceful };
+    return this.request('POST', `/api/agents/${guid}/shutdown`, body, {
+      schema: operationResultSchema,
+    });
   }
 
   // ============ Work ============
 
-  async listWork(filter?: {
-    status?: string;
-    classification?: string;
-  }): Promise<APIResponse<{ workItems: any[]; count: number }>> {
+  async listWork(filter?: WorkFilter): Promise<APIResponse<WorkItemList>> {
     const params = new URLSearchParams();
     if (filter?.status) params.set('status', filter.status);
     if (filter?.classification) params.set('classification', filter.classification);
 
     const query = params.toString();
-    return this.request('GET', `/api/work${query ? `?${query}` : ''}`);
+    return this.request('GET', `/api/work${query ? `?${query}` : ''}`, undefined, {
+      schema: workItemListSchema,
+    });
   }
 
-  async getWork(id: string): Promise<APIResponse<any>> {
-    return this.request('GET', `/api/work/${id}`);
+  async getWork(id: string): Promise<APIResponse<WorkItem>> {
+    return this.request('GET', `/api/work/${id}`, undefined, { schema: workItemSchema });
   }
 
-  async submitWork(work: {
-    description: string;
-    boundary: string;
-    capability: string;
-    priority?: number;
-    taskId?: string;
-    deadline?: string;
-    contextData?: Record<string, unknown>;
-  }): Promise<APIResponse<any>> {
-    return this.request('POST', '/api/work', work);
+  /**
+   * Stream updates for a work item via Server-Sent Events
+   *
+   * Each yielded value is the latest work item state. Responds with status 404,
+   * 405 or 406 (not ok) when the coordinator does not support streaming, so
+   * callers can fall back to polling. The connect timeout applies only until
+   * the stream is established; iteration ends when the server closes it or the
+   * signal is aborted.
+   */
+  async streamWork(
+    id: string,
+    signal?: AbortSignal
+  ): Promise<APIResponse<AsyncIterable<WorkItem>>> {
+    const url = `${this.baseUrl}/api/work/${id}/stream`;
+    const headers: Record<string, string> = {
+      'Accept': 'text/event-stream',
+      ...this.authHeaders(),
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    // The caller's signal may outlive many streams, so the listener must not stay behind
+    const release = () => signal?.removeEventListener('abort', abort);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'GET', headers, signal: controller.signal });
+    } catch (err: any) {
+      clearTimeout(timeoutId);
+      release();
+      return {
+        ok: false,
+        status: 0,
+        error: err.name === 'AbortError' ? `Request timeout after ${this.timeout}ms` : err.message || 'Network error',
+      };
+    }
+    clearTimeout(timeoutId);
+
+    const contentType = response.headers.get('content-type');
+    if (!response.ok || !response.body || !contentType?.includes('text/event-stream')) {
+      await response.body?.cancel();
+      release();
+      return {
+        ok: false,
+        // A non-streaming success response means the endpoint is not an event stream
+        status: response.ok ? 406 : response.status,
+        error: response.ok ? 'Streaming not supported' : response.statusText,
+      };
+    }
+
+    const body = response.body as unknown as AsyncIterable<Uint8Array>;
+    async function* workItems(): AsyncGenerator<WorkItem> {
+      try {
+        for await (const event of parseServerSentEvents(body)) {
+          if (event.event === 'message' || event.event === 'update') {
+            yield parseResponse(JSON.parse(event.data), workItemSchema);
+          }
+        }
+      } catch (err: any) {
+        // Aborting ends the stream quietly
+        if (err.name !== 'AbortError') throw err;
+      } finally {
+        release();
+      }
+    }
+
+    return { ok: true, status: response.status, data: workItems() };
+  }
+
+  async submitWork(work: WorkSubmission): Promise<APIResponse<SubmitWorkResult>> {
+    // The task ID doubles as the idempotency key, so a retried submission
+    // cannot create a second work item
+    if (work.taskId) {
+      return this.request('POST', '/api/work', work, {
+        schema: submitWorkResultSchema,
+        headers: { 'Idempotency-Key': work.taskId },
+        retryable: true,
+      });
+    }
+    return this.request('POST', '/api/work', work, { schema: submitWorkResultSchema });
   }
 
   async cancelWork(
     id: string
-  ): Promise<APIResponse<{ success: boolean; message: string }>> {
-    return this.request('POST', `/api/work/${id}/cancel`);
+  ): Promise<APIResponse<OperationResult>> {
+    return this.request('POST', `/api/work/${id}/cancel`, undefined, {
+      schema: operationResultSchema,
+    });
   }
 
   // ============ Targets ============
 
-  async listTargets(filter?: {
-    type?: string;
-    status?: string;
-    capability?: string;
-    classification?: string;
-  }): Promise<APIResponse<{ targets: any[]; count: number }>> {
+  async listTargets(filter?: TargetFilter): Promise<APIResponse<TargetList>> {
     const params = new URLSearchParams();
     if (filter?.type) params.set('type', filter.type);
     if (filter?.status) params.set('status', filter.status);
@@ -199,86 +415,97 @@ export class WeftAPIClient {
     if (filter?.classification) params.set('classification', filter.classification);
 
     const query = params.toString();
-    return this.request('GET', `/api/targets${query ? `?${query}` : ''}`);
+    return this.request('GET', `/api/targets${query ? `?${query}` : ''}`, undefined, {
+      schema: targetListSchema,
+    });
   }
 
-  async getTarget(idOrName: string): Promise<APIResponse<any>> {
-    return this.request('GET', `/api/targets/${encodeURIComponent(idOrName)}`);
+  async getTarget(idOrName: string): Promise<APIResponse<Target>> {
+    return this.request('GET', `/api/targets/${encodeURIComponent(idOrName)}`, undefined, {
+      schema: targetSchema,
+    });
   }
 
-  async createTarget(target: {
-    name: string;
-    agentType: string;
-    capabilities: string[];
-    mechanism: string;
-    config: any;
-    boundaries?: string[];
-    description?: string;
-    tags?: string[];
-  }): Promise<APIResponse<any>> {
-    return this.request('POST', '/api/targets', target);
+  async createTarget(target: TargetInput): Promise<APIResponse<Target>> {
+    return this.request('POST', '/api/targets', target, { schema: targetSchema });
   }
 
   async updateTarget(
     idOrName: string,
     updates: Record<string, unknown>
-  ): Promise<APIResponse<any>> {
-    return this.request('PUT', `/api/targets/${encodeURIComponent(idOrName)}`, updates);
+  ): Promise<APIResponse<Target>> {
+    return this.request('PUT', `/api/targets/${encodeURIComponent(idOrName)}`, updates, {
+      schema: targetSchema,
+    });
   }
 
   async deleteTarget(
     idOrName: string
-  ): Promise<APIResponse<{ success: boolean; message: string }>> {
-    return this.request('DELETE', `/api/targets/${encodeURIComponent(idOrName)}`);
+  ): Promise<APIResponse<OperationResult>> {
+    return this.request('DELETE', `/api/targets/${encodeURIComponent(idOrName)}`, undefined, {
+      schema: operationResultSchema,
+    });
   }
 
-  async testTarget(idOrName: string): Promise<APIResponse<any>> {
-    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/test`);
+  async testTarget(idOrName: string): Promise<APIResponse<TargetTestResult>> {
+    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/test`, undefined, {
+      schema: targetTestResultSchema,
+    });
   }
 
-  async spinUpTarget(idOrName: string): Promise<APIResponse<any>> {
-    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/spin-up`);
+  async spinUpTarget(idOrName: string): Promise<APIResponse<SpinUpResult>> {
+    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/spin-up`, undefined, {
+      schema: spinUpResultSchema,
+    });
   }
 
   async enableTarget(
     idOrName: string
-  ): Promise<APIResponse<{ success: boolean; message: string }>> {
-    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/enable`);
+  ): Promise<APIResponse<OperationResult>> {
+    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/enable`, undefined, {
+      schema: operationResultSchema,
+    });
   }
 
   async disableTarget(
     idOrName: string
-  ): Promise<APIResponse<{ success: boolean; message: string }>> {
-    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/disable`);
+  ): Promise<APIResponse<OperationResult>> {
+    return this.request('POST', `/api/targets/${encodeURIComponent(idOrName)}/disable`, undefined, {
+      schema: operationResultSchema,
+    });
   }
 
   // ============ Stats ============
 
-  async getStats(): Promise<APIResponse<any>> {
-    return this.request('GET', '/api/stats');
+  async getStats(): Promise<APIResponse<Stats>> {
+    return this.request('GET', '/api/stats', undefined, { schema: statsSchema });
   }
 
-  async listProjects(): Promise<APIResponse<{ projects: string[]; count: number }>> {
-    return this.request('GET', '/api/stats/projects');
+  async listProjects(): Promise<APIResponse<ProjectList>> {
+    return this.request('GET', '/api/stats/projects', undefined, { schema: projectListSchema });
   }
 
   // ============ Channels ============
 
   async listChannels(
     projectId: string
-  ): Promise<APIResponse<{ channels: { name: string; description?: string }[]; count: number }>> {
-    return this.request('GET', `/api/channels?projectId=${encodeURIComponent(projectId)}`);
+  ): Promise<APIResponse<ChannelList>> {
+    return this.request('GET', `/api/channels?projectId=${encodeURIComponent(projectId)}`, undefined, {
+      schema: channelListSchema,
+    });
   }
 
   async readChannelMessages(
     projectId: string,
     channelName: string,
     limit = 50
-  ): Promise<APIResponse<{ channel: string; messages: { timestamp: string; handle: string; message: string }[]; count: number }>> {
+  ): Promise<APIResponse<ChannelMessages>> {
     const params = new URLSearchParams({
       projectId,
       limit: String(limit),
     });
-    return this.request('GET', `/api/channels/${encodeURIComponent(channelName)}/messages?${params}`);
+    return this.request('GET', `/api/channels/${encodeURIComponent(channelName)}/messages?${params}`, undefined, {
+      schema: channelMessagesSchema,
+    });
   }
 }
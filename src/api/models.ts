@@ -0,0 +1,403 @@
+/**
+ * Weft REST API models
+ *
+ * Request and response types for the coordinator API, each paired with a
+ * schema used to validate responses at runtime. Only the fields Shuttle
+ * relies on are declared; anything else the coordinator sends is kept as is.
+ */
+
+import type { AgentType, Boundary, Priority, SpinUpMechanism } from '@mdlopresti/loom-shared';
+import {
+  array,
+  boolean,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  unknown,
+  type Schema,
+} from './schema.js';
+
+// ============ Common ============
+
+export interface OperationResult {
+  success?: boolean;
+  message?: string;
+}
+
+export const operationResultSchema = object<OperationResult>({
+  success: optional(boolean()),
+  message: optional(string()),
+});
+
+export interface HealthStatus {
+  status: string;
+}
+
+export const healthStatusSchema = object<HealthStatus>({
+  status: string(),
+});
+
+// Shared string unions are validated as strings so new values do not break the CLI
+const agentType = string as () => Schema<AgentType>;
+const mechanism = string as () => Schema<SpinUpMechanism>;
+const workStatus = string as () => Schema<WorkStatus>;
+
+// ============ Agents ============
+
+/** Agent types work can be restricted to */
+export const AGENT_TYPES: AgentType[] = ['copilot-cli', 'claude-code'];
+
+/**
+ * Check that a value is a known agent type
+ */
+export function isAgentType(value: unknown): value is AgentType {
+  return typeof value === 'string' && (AGENT_TYPES as string[]).includes(value);
+}
+
+export interface Agent {
+  guid: string;
+  handle?: string;
+  agentType: AgentType;
+  status: string;
+  capabilities?: string[];
+  boundaries?: Boundary[];
+  hostname?: string;
+  currentTaskCount?: number;
+  maxConcurrentTasks?: number;
+  registeredAt?: string;
+  lastHeartbeat?: string;
+}
+
+export const agentSchema = object<Agent>({
+  guid: string(),
+  handle: optional(string()),
+  agentType: agentType(),
+  status: string(),
+  capabilities: optional(array(string())),
+  boundaries: optional(array(string())),
+  hostname: optional(string()),
+  currentTaskCount: optional(number()),
+  maxConcurrentTasks: optional(number()),
+  registeredAt: optional(string()),
+  lastHeartbeat: optional(string()),
+});
+
+export interface AgentList {
+  agents: Agent[];
+  count?: number;
+}
+
+export const agentListSchema = object<AgentList>({
+  agents: array(agentSchema),
+  count: optional(number()),
+});
+
+export interface AgentFilter {
+  type?: string;
+  status?: string;
+  capability?: string;
+}
+
+// ============ Work ============
+
+export const WORK_STATUSES = [
+  'pending',
+  'assigned',
+  'in-progress',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+
+export type WorkStatus = (typeof WORK_STATUSES)[number];
+
+export interface WorkResult {
+  summary?: string;
+  artifacts?: string[];
+  completedAt?: string;
+}
+
+export interface WorkError {
+  message: string;
+  code?: string;
+  recoverable?: boolean;
+  occurredAt?: string;
+}
+
+export interface WorkItem {
+  id: string;
+  taskId?: string;
+  status: WorkStatus;
+  boundary?: Boundary;
+  capability?: string;
+  description?: string;
+  priority?: Priority;
+  attempts?: number;
+  agentType?: AgentType;
+  offeredBy?: string;
+  offeredAt?: string;
+  assignedTo?: string;
+  assignedAt?: string;
+  deadline?: string;
+  progress?: number;
+  contextData?: Record<string, unknown>;
+  result?: WorkResult;
+  error?: WorkError;
+}
+
+export const workItemSchema = object<WorkItem>({
+  id: string(),
+  taskId: optional(string()),
+  status: workStatus(),
+  boundary: optional(string()),
+  capability: optional(string()),
+  description: optional(string()),
+  priority: optional(number()),
+  attempts: optional(number()),
+  agentType: optional(agentType()),
+  offeredBy: optional(string()),
+  offeredAt: optional(string()),
+  assignedTo: optional(string()),
+  assignedAt: optional(string()),
+  deadline: optional(string()),
+  progress: optional(number()),
+  contextData: optional(record(unknown())),
+  result: optional(
+    object<WorkResult>({
+      summary: optional(string()),
+      artifacts: optional(array(string())),
+      completedAt: optional(string()),
+    })
+  ),
+  error: optional(
+    object<WorkError>({
+      message: string(),
+      code: optional(string()),
+      recoverable: optional(boolean()),
+      occurredAt: optional(string()),
+    })
+  ),
+});
+
+export interface WorkItemList {
+  workItems: WorkItem[];
+  count?: number;
+}
+
+export const workItemListSchema = object<WorkItemList>({
+  workItems: array(workItemSchema),
+  count: optional(number()),
+});
+
+export interface WorkFilter {
+  status?: string;
+  classification?: string;
+}
+
+export interface WorkSubmission {
+  description: string;
+  boundary: Boundary;
+  capability: string;
+  priority?: Priority;
+  /** Only agents of this type may take the work */
+  agentType?: AgentType;
+  taskId?: string;
+  deadline?: string;
+  contextData?: Record<string, unknown>;
+}
+
+export interface SubmitWorkResult {
+  id?: string;
+  workItemId?: string;
+  targetAgentType?: AgentType;
+  spinUpTriggered?: boolean;
+  estimatedWaitSeconds?: number;
+}
+
+export const submitWorkResultSchema = object<SubmitWorkResult>({
+  id: optional(string()),
+  workItemId: optional(string()),
+  targetAgentType: optional(agentType()),
+  spinUpTriggered: optional(boolean()),
+  estimatedWaitSeconds: optional(number()),
+});
+
+// ============ Targets ============
+
+export interface Target {
+  id: string;
+  name: string;
+  agentType: AgentType;
+  mechanism: SpinUpMechanism;
+  status: string;
+  healthStatus?: string;
+  description?: string;
+  capabilities?: string[];
+  boundaries?: Boundary[];
+  tags?: string[];
+  config?: Record<string, unknown>;
+  useCount?: number;
+  lastUsedAt?: string;
+  createdAt?: string;
+}
+
+export const targetSchema = object<Target>({
+  id: string(),
+  name: string(),
+  agentType: agentType(),
+  mechanism: mechanism(),
+  status: string(),
+  healthStatus: optional(string()),
+  description: optional(string()),
+  capabilities: optional(array(string())),
+  boundaries: optional(array(string())),
+  tags: optional(array(string())),
+  config: optional(record(unknown())),
+  useCount: optional(number()),
+  lastUsedAt: optional(string()),
+  createdAt: optional(string()),
+});
+
+export interface TargetList {
+  targets: Target[];
+  count?: number;
+}
+
+export const targetListSchema = object<TargetList>({
+  targets: array(targetSchema),
+  count: optional(number()),
+});
+
+export interface TargetFilter {
+  type?: string;
+  status?: string;
+  capability?: string;
+  classification?: string;
+}
+
+export interface TargetInput {
+  name: string;
+  agentType: AgentType;
+  capabilities: string[];
+  mechanism: SpinUpMechanism;
+  config: Record<string, unknown>;
+  boundaries?: Boundary[];
+  description?: string;
+  tags?: string[];
+}
+
+export interface TargetTestResult {
+  healthy: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+export const targetTestResultSchema = object<TargetTestResult>({
+  healthy: boolean(),
+  latencyMs: optional(number()),
+  error: optional(string()),
+});
+
+/**
+ * Result of triggering a spin-up
+ * Older coordinators report `success`, newer ones a `status`.
+ */
+export interface SpinUpResult {
+  success?: boolean;
+  status?: string;
+  operationId?: string;
+  targetId?: string;
+  targetName?: string;
+  timestamp?: string;
+  mechanismResult?: Record<string, unknown>;
+  error?: string;
+  message?: string;
+}
+
+export const spinUpResultSchema = object<SpinUpResult>({
+  success: optional(boolean()),
+  status: optional(string()),
+  operationId: optional(string()),
+  targetId: optional(string()),
+  targetName: optional(string()),
+  timestamp: optional(string()),
+  mechanismResult: optional(record(unknown())),
+  error: optional(string()),
+  message: optional(string()),
+});
+
+// ============ Stats ============
+
+export interface Stats {
+  pending?: number;
+  active?: number;
+  completed?: number;
+  failed?: number;
+  total?: number;
+}
+
+export const statsSchema = object<Stats>({
+  pending: optional(number()),
+  active: optional(number()),
+  completed: optional(number()),
+  failed: optional(number()),
+  total: optional(number()),
+});
+
+export interface ProjectList {
+  projects: string[];
+  count?: number;
+}
+
+export const projectListSchema = object<ProjectList>({
+  projects: array(string()),
+  count: optional(number()),
+});
+
+// ============ Channels ============
+
+export interface Channel {
+  name: string;
+  description?: string;
+}
+
+export interface ChannelList {
+  channels: Channel[];
+  count?: number;
+}
+
+export const channelListSchema = object<ChannelList>({
+  channels: array(
+    object<Channel>({
+      name: string(),
+      description: optional(string()),
+    })
+  ),
+  count: optional(number()),
+});
+
+export interface ChannelMessage {
+  timestamp: string;
+  handle: string;
+  message: string;
+}
+
+export interface ChannelMessages {
+  channel: string;
+  messages: ChannelMessage[];
+  count?: number;
+}
+
+export const channelMessagesSchema = object<ChannelMessages>({
+  channel: string(),
+  messages: array(
+    object<ChannelMessage>({
+      timestamp: string(),
+      handle: string(),
+      message: string(),
+    })
+  ),
+  count: optional(number()),
+});
@@ -0,0 +1,61 @@
+/**
+ * Retry policy for the Weft API client
+ */
+
+/**
+ * HTTP statuses that indicate a transient coordinator problem
+ */
+export const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Methods that can be repeated without side effects
+ */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Longest Retry-After we are willing to wait; anything beyond is treated as final
+ */
+export const MAX_RETRY_AFTER_MS = 60000;
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/**
+ * Backoff delay before retry number `attempt` (0-based), with full jitter
+ */
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
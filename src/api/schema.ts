@@ -0,0 +1,109 @@
+/**
+ * Runtime validation of coordinator responses
+ *
+ * A schema checks an unknown value and returns it typed, or throws a
+ * SchemaError naming the offending path. Object schemas only check the
+ * declared fields and keep any others, so additive API changes stay
+ * compatible while renamed or retyped fields are reported.
+ */
+
+export class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly actual: unknown
+  ) {
+    super(`${path || '(root)'}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 30 ? `${value.substring(0, 30)}...` : value}"`;
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return (value, path = '') => {
+    if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+      throw new SchemaError(path, type, value);
+    }
+    return value as T;
+  };
+}
+
+export const string = (): Schema<string> => primitive('string');
+export const number = (): Schema<number> => primitive('number');
+export const boolean = (): Schema<boolean> => primitive('boolean');
+
+/**
+ * Any value, left unchecked
+ */
+export const unknown = <T = unknown>(): Schema<T> => (value) => value as T;
+
+/**
+ * One of a fixed set of string values
+ */
+export function literal<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path = '') => {
+    if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+      throw new SchemaError(path, `one of ${values.join('|')}`, value);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * An optional value; null is treated as missing
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path = '') => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, 'array', value);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item(entry, path ? `${path}.${key}` : key);
+    }
+    return value as Record<string, T>;
+  };
+}
+
+/**
+ * An object with the given fields
+ * Every field of T needs a schema, so models and schemas cannot drift apart.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const checked = shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (checked !== undefined) {
+        result[key] = checked;
+      } else {
+        delete result[key];
+      }
+    }
+    return result as T;
+  };
+}
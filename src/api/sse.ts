@@ -0,0 +1,83 @@
+/**
+ * Server-Sent Events parsing
+ *
+ * Minimal parser for text/event-stream bodies as served by Weft.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a stream of SSE bytes into events
+ * Comment lines, events without data and an unterminated final event are skipped.
+ */
+export async function* parseServerSentEvents(
+  body: AsyncIterable<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const dispatch = (): ServerSentEvent | undefined => {
+    const result = data.length > 0 ? { event, data: data.join('\n'), id } : undefined;
+    event = 'message';
+    data = [];
+    return result;
+  };
+
+  const processLine = (line: string): ServerSentEvent | undefined => {
+    if (line === '') {
+      return dispatch();
+    }
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        id = value;
+        break;
+    }
+    return undefined;
+  };
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing \r may be the first half of a \r\n split across chunks
+      if (buffer[newline] === '\r' && newline === buffer.length - 1) {
+        break;
+      }
+      const line = buffer.substring(0, newline);
+      const separatorLength = buffer.startsWith('\r\n', newline) ? 2 : 1;
+      buffer = buffer.substring(newline + separatorLength);
+
+      const parsed = processLine(line);
+      if (parsed) {
+        yield parsed;
+      }
+    }
+  }
+
+  // An event not terminated by a blank line is incomplete and discarded, as the SSE spec requires
+}
@@ -9,6 +9,7 @@ import { dirname, join } from 'path';
 
 import { configCommand } from './commands/config.js';
 import { submitCommand } from './commands/submit.js';
+import { templatesCommand } from './commands/templates.js';
 import { agentsCommand } from './commands/agents.js';
 import { workCommand } from './commands/work.js';
 import { watchCommand } from './commands/watch.js';
@@ -18,6 +19,9 @@ import { shutdownCommand } from './commands/shutdown.js';
 import { targetsCommand } from './commands/targets.js';
 import { projectsCommand } from './commands/projects.js';
 import { channelsCommand } from './commands/channels.js';
+import { pipelineCommand } from './commands/pipeline.js';
+import { scheduleCommand } from './commands/schedule.js';
+import { loginCommand, logoutCommand } from './commands/login.js';
 
 // Get package.json version
 const __filename = fileURLToPath(import.meta.url);
@@ -31,6 +35,7 @@ export interface GlobalOptions {
   config?: string;
   quiet?: boolean;
   project?: string;
+  context?: string;
 }
 
 export function createCLI(): Command {
@@ -46,11 +51,15 @@ export function createCLI(): Command {
     .option('--json', 'Output as JSON instead of formatted tables')
     .option('--config <path>', 'Path to config file (default: ~/.loom/config.json)')
     .option('-q, --quiet', 'Suppress non-essential output')
-    .option('-p, --project <id>', 'Project ID to operate on (overrides config)');
+    .option('-p, --project <id>', 'Project ID to operate on (overrides config)')
+    .option('--context <name>', 'Config context to use (overrides LOOM_CONTEXT and the current context)');
 
   // Register commands
   program.addCommand(configCommand());
+  program.addCommand(loginCommand());
+  program.addCommand(logoutCommand());
   program.addCommand(submitCommand());
+  program.addCommand(templatesCommand());
   program.addCommand(agentsCommand());
   program.addCommand(workCommand());
   program.addCommand(watchCommand());
@@ -60,6 +69,8 @@ export function createCLI(): Command {
   program.addCommand(targetsCommand());
   program.addCommand(projectsCommand());
   program.addCommand(channelsCommand());
+  program.addCommand(pipelineCommand());
+  program.addCommand(scheduleCommand());
 
   return program;
 }
@@ -81,5 +92,6 @@ export function getGlobalOptions(command: Command): GlobalOptions {
     config: opts.config,
     quiet: opts.quiet,
     project: opts.project,
+    context: opts.context,
   };
 }
@@ -1,5 +1,5 @@
 /**
- * Agents command - List and manage agents
+ * Agents command - List and inspect agents
  */
 
 import { Command } from 'commander';
@@ -12,80 +12,305 @@ import {
   createTable,
   colorStatus,
   colorAgentType,
+  colorBoundary,
+  formatDuration,
+  formatKeyValue,
+  formatTimestamp,
   truncate,
 } from '../utils/output.js';
+import { fetchAgent, resolveAgent, type AgentRef } from '../utils/resolve-id.js';
+import { agentHistory, summarizeHistory } from '../utils/agent-history.js';
+import { isTerminalStatus } from '../utils/work-status.js';
 import { getGlobalOptions } from '../cli.js';
 
 export function agentsCommand(): Command {
   const cmd = new Command('agents');
 
   cmd
+    .description('List and inspect registered agents')
+    .option('--type <type>', 'Filter by agent type (copilot-cli|claude-code)')
+    .option('--status <status>', 'Filter by status (online|busy|offline)')
+    .option('--capability <name>', 'Filter by capability')
+    .action(agentsListAction);
+
+  cmd
+    .command('list')
+    .alias('ls')
     .description('List registered agents')
     .option('--type <type>', 'Filter by agent type (copilot-cli|claude-code)')
     .option('--status <status>', 'Filter by status (online|busy|offline)')
     .option('--capability <name>', 'Filter by capability')
-    .action(async (options, command) => {
-      const globalOpts = getGlobalOptions(command);
-      const spinner = ora();
-
-      try {
-        const config = loadConfig({
-          configPath: globalOpts.config,
-          projectOverride: globalOpts.project,
-        });
-
-        if (!globalOpts.quiet) {
-          spinner.start('Fetching agents...');
-        }
-
-        const client = createAPIClient(config);
-        const response = await client.listAgents({
-          type: options.type,
-          status: options.status,
-          capability: options.capability,
-        });
-
-        if (!response.ok) {
-          throw new Error(response.error || `HTTP ${response.status}`);
-        }
-
-        const agents = response.data?.agents || [];
-
-        if (!globalOpts.quiet) {
-          spinner.succeed(`Found ${agents.length} agent(s)`);
-        }
-
-        // Output results
-        if (globalOpts.json) {
-          output({ agents }, globalOpts);
-        } else {
-          if (agents.length === 0) {
-            console.log('No agents found');
-            return;
-          }
-
-          const table = createTable(
-            ['GUID', 'Handle', 'Type', 'Status', 'Capabilities', 'Tasks'],
-            agents.map((agent: any) => [
-              truncate(agent.guid, 12),
-              agent.handle || '-',
-              colorAgentType(agent.agentType),
-              colorStatus(agent.status),
-              truncate((agent.capabilities || []).join(', '), 30),
-              `${agent.currentTaskCount || 0}`,
-            ])
-          );
-
-          console.log(table.toString());
-        }
-      } catch (err: any) {
-        if (spinner.isSpinning) {
-          spinner.fail('Failed to fetch agents');
-        }
-        error(`Error: ${err.message}`, {});
-        process.exit(1);
+    .action(agentsListAction);
+
+  cmd
+    .command('show')
+    .description('Show details of an agent')
+    .argument('<agent>', 'Agent GUID, GUID prefix or handle')
+    .action(agentsShowAction);
+
+  cmd
+    .command('history')
+    .description('Show the work an agent has been assigned')
+    .argument('<agent>', 'Agent GUID, GUID prefix or handle')
+    .option('--status <status>', 'Only show work with this status')
+    .option('--limit <n>', 'Show at most this many work items', '20')
+    .action(agentsHistoryAction);
+
+  return cmd;
+}
+
+async function agentsListAction(_options: any, command: Command) {
+  // The parent command declares the same filters and takes them even after a subcommand
+  const options = command.optsWithGlobals();
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    if (!globalOpts.quiet) {
+      spinner.start('Fetching agents...');
+    }
+
+    const client = createAPIClient(config);
+    const response = await client.listAgents({
+      type: options.type,
+      status: options.status,
+      capability: options.capability,
+    });
+
+    if (!response.ok) {
+      throw new Error(response.error || `HTTP ${response.status}`);
+    }
+
+    const agents = response.data?.agents || [];
+
+    if (!globalOpts.quiet) {
+      spinner.succeed(`Found ${agents.length} agent(s)`);
+    }
+
+    // Output results
+    if (globalOpts.json) {
+      output({ agents }, globalOpts);
+    } else {
+      if (agents.length === 0) {
+        console.log('No agents found');
+        return;
       }
+
+      const table = createTable(
+        ['GUID', 'Handle', 'Type', 'Status', 'Capabilities', 'Tasks'],
+        agents.map((agent) => [
+          truncate(agent.guid, 12),
+          agent.handle || '-',
+          colorAgentType(agent.agentType),
+          colorStatus(agent.status),
+          truncate((agent.capabilities || []).join(', '), 30),
+          `${agent.currentTaskCount || 0}`,
+        ])
+      );
+
+      console.log(table.toString());
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to fetch agents');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function agentsShowAction(ref: string, _options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
     });
 
-  return cmd;
+    if (!globalOpts.quiet) {
+      spinner.start('Fetching agent...');
+    }
+
+    const client = createAPIClient(config);
+    const { guid, agent: listed } = await fetchAgent(client, ref);
+
+    // The detail endpoint may know more than the list
+    const [agentResponse, workResponse] = await Promise.all([client.getAgent(guid), client.listWork()]);
+    const agent = agentResponse.ok ? { ...listed, ...agentResponse.data! } : listed;
+    if (!agent) {
+      throw new Error(agentResponse.error || `HTTP ${agentResponse.status}`);
+    }
+
+    if (!workResponse.ok) {
+      throw new Error(workResponse.error || `HTTP ${workResponse.status}`);
+    }
+
+    const currentWork = workResponse.data!.workItems.filter(
+      (item) => item.assignedTo === agent.guid && !isTerminalStatus(item.status)
+    );
+
+    if (!globalOpts.quiet) {
+      spinner.succeed('Agent found');
+    }
+
+    // Output results
+    if (globalOpts.json) {
+      output({ ...agent, currentWork }, globalOpts);
+    } else {
+      const uptimeMs = agent.registeredAt ? Date.now() - new Date(agent.registeredAt).getTime() : undefined;
+
+      console.log('\nAgent Details:');
+      console.log(
+        formatKeyValue({
+          'GUID': agent.guid,
+          'Handle': agent.handle || 'N/A',
+          'Type': colorAgentType(agent.agentType),
+          'Status': colorStatus(agent.status),
+          'Host': agent.hostname || 'N/A',
+          'Capabilities': (agent.capabilities || []).join(', ') || 'None',
+          'Boundaries': (agent.boundaries || []).map((boundary) => colorBoundary(boundary)).join(', ') || 'None',
+          'Tasks': `${agent.currentTaskCount || 0}${agent.maxConcurrentTasks ? ` / ${agent.maxConcurrentTasks}` : ''}`,
+          'Registered At': formatTimestamp(agent.registeredAt),
+          'Uptime': formatDuration(uptimeMs),
+          'Last Heartbeat': formatTimestamp(agent.lastHeartbeat),
+        })
+      );
+
+      if (currentWork.length > 0) {
+        console.log('\nCurrent Work:');
+        const table = createTable(
+          ['ID', 'Status', 'Capability', 'Description', 'Progress', 'Assigned'],
+          currentWork.map((item) => [
+            truncate(item.id, 12),
+            colorStatus(item.status),
+            item.capability || '-',
+            truncate(item.description || '', 40),
+            item.progress !== undefined ? `${item.progress}%` : '-',
+            formatTimestamp(item.assignedAt),
+          ])
+        );
+        console.log(table.toString());
+      }
+
+      console.log();
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to fetch agent');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function agentsHistoryAction(ref: string, _options: any, command: Command) {
+  // --status is also a parent option, which takes it even after the subcommand
+  const options = command.optsWithGlobals();
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    const limit = parseInt(options.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('--limit must be a positive integer');
+    }
+
+    if (!globalOpts.quiet) {
+      spinner.start('Fetching work history...');
+    }
+
+    const client = createAPIClient(config);
+    const [agentsResponse, workResponse] = await Promise.all([client.listAgents(), client.listWork()]);
+
+    if (!agentsResponse.ok) {
+      throw new Error(agentsResponse.error || `HTTP ${agentsResponse.status}`);
+    }
+    if (!workResponse.ok) {
+      throw new Error(workResponse.error || `HTTP ${workResponse.status}`);
+    }
+
+    // Agents that have since left are still known by the work assigned to them
+    const workItems = workResponse.data!.workItems;
+    const agents: AgentRef[] = [...agentsResponse.data!.agents];
+    for (const guid of new Set(workItems.map((item) => item.assignedTo).filter(Boolean) as string[])) {
+      if (!agents.some((agent) => agent.guid === guid)) {
+        agents.push({ guid });
+      }
+    }
+
+    const agent = resolveAgent(agents, ref);
+    const history = agentHistory(workItems, agent.guid).filter(
+      (entry) => !options.status || entry.status === options.status
+    );
+    const summary = summarizeHistory(history);
+    const shown = history.slice(0, limit);
+
+    if (!globalOpts.quiet) {
+      spinner.succeed(`Found ${history.length} work item(s) for ${agent.handle || agent.guid}`);
+    }
+
+    // Output results
+    if (globalOpts.json) {
+      output(
+        {
+          agent: { guid: agent.guid, handle: agent.handle },
+          summary,
+          history: shown.map((entry) => ({ ...entry.workItem, durationMs: entry.durationMs })),
+        },
+        globalOpts
+      );
+    } else {
+      if (history.length === 0) {
+        console.log('No work items found');
+        return;
+      }
+
+      const table = createTable(
+        ['ID', 'Status', 'Capability', 'Description', 'Started', 'Duration', 'Outcome'],
+        shown.map((entry) => [
+          truncate(entry.workItem.id, 12),
+          colorStatus(entry.status),
+          entry.workItem.capability || '-',
+          truncate(entry.workItem.description || '', 30),
+          formatTimestamp(entry.startedAt),
+          formatDuration(entry.durationMs),
+          truncate(entry.workItem.error?.message || entry.workItem.result?.summary || '', 30),
+        ])
+      );
+
+      console.log(table.toString());
+
+      const counts = Object.entries(summary.byStatus)
+        .map(([status, count]) => `${count} ${status}`)
+        .join(', ');
+      console.log(
+        `\n${summary.total} work item(s): ${counts}` +
+          (summary.averageDurationMs !== undefined ? `; average duration ${formatDuration(summary.averageDurationMs)}` : '')
+      );
+      if (shown.length < history.length) {
+        console.log(`Showing the latest ${shown.length}; use --limit to see more`);
+      }
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to fetch work history');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
 }
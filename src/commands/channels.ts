@@ -31,6 +31,7 @@ export function channelsCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!config.projectId) {
@@ -65,7 +66,7 @@ export function channelsCommand(): Command {
 
           const table = createTable(
             ['Channel', 'Description'],
-            channels.map((channel: any) => [
+            channels.map((channel) => [
               chalk.cyan(`#${channel.name}`),
               channel.description || '-',
             ])
@@ -95,6 +96,7 @@ export function channelsCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!config.projectId) {
@@ -3,15 +3,22 @@
  */
 
 import { Command } from 'commander';
-import type { CLIConfiguration } from '@mdlopresti/loom-shared';
 import {
   loadConfig,
   setConfigValue,
-  listConfig,
+  resolveConfig,
+  findProjectConfig,
   getDefaultConfigPath,
   validateConfig,
+  getCurrentContext,
+  listContexts,
+  useContext,
+  setContext,
+  SECRET_CONFIG_KEYS,
+  type ShuttleConfiguration,
 } from '../utils/config-file.js';
-import { output, success, error, formatKeyValue } from '../utils/output.js';
+import { maskSecret } from '../utils/credentials.js';
+import { output, success, error, formatKeyValue, createTable } from '../utils/output.js';
 import { getGlobalOptions } from '../cli.js';
 
 export function configCommand(): Command {
@@ -22,7 +29,10 @@ export function configCommand(): Command {
     .addCommand(configSetCommand())
     .addCommand(configGetCommand())
     .addCommand(configListCommand())
-    .addCommand(configPathCommand());
+    .addCommand(configPathCommand())
+    .addCommand(configGetContextsCommand())
+    .addCommand(configUseContextCommand())
+    .addCommand(configSetContextCommand());
 
   return cmd;
 }
@@ -39,7 +49,7 @@ function configSetCommand(): Command {
         const globalOpts = getGlobalOptions(command);
 
         // Validate key is a valid config property
-        const validKeys: (keyof CLIConfiguration)[] = [
+        const validKeys: (keyof ShuttleConfiguration)[] = [
           'natsUrl',
           'projectId',
           'defaultBoundary',
@@ -47,9 +57,10 @@ function configSetCommand(): Command {
           'outputFormat',
           'apiUrl',
           'apiToken',
+          'credentialCommand',
         ];
 
-        if (!validKeys.includes(key as keyof CLIConfiguration)) {
+        if (!validKeys.includes(key as keyof ShuttleConfiguration)) {
           error(`Invalid config key: ${key}`, globalOpts);
           error(`Valid keys: ${validKeys.join(', ')}`, globalOpts);
           process.exit(1);
@@ -73,8 +84,11 @@ function configSetCommand(): Command {
           process.exit(1);
         }
 
-        setConfigValue(key as keyof CLIConfiguration, parsedValue, globalOpts.config);
-        success(`Set ${key} = ${parsedValue}`, globalOpts);
+        setConfigValue(key as keyof ShuttleConfiguration, parsedValue, globalOpts.config, globalOpts.context);
+        const shown = SECRET_CONFIG_KEYS.includes(key as keyof ShuttleConfiguration)
+          ? maskSecret(parsedValue)
+          : parsedValue;
+        success(`Set ${key} = ${shown}`, globalOpts);
       } catch (err: any) {
         error(`Failed to set config: ${err.message}`, {});
         process.exit(1);
@@ -90,17 +104,21 @@ function configGetCommand(): Command {
   cmd
     .description('Get a configuration value')
     .argument('<key>', 'Configuration key')
-    .action(async (key: string, _options, command) => {
+    .option('--show-secrets', 'Show secret values such as apiToken unmasked')
+    .action(async (key: string, options, command) => {
       try {
         const globalOpts = getGlobalOptions(command);
-        const config = loadConfig(globalOpts.config);
+        const config = maskSecrets(
+          loadConfig({ configPath: globalOpts.config, context: globalOpts.context }),
+          options.showSecrets
+        );
 
         if (!(key in config)) {
           error(`Unknown config key: ${key}`, globalOpts);
           process.exit(1);
         }
 
-        const value = config[key as keyof CLIConfiguration];
+        const value = config[key as keyof ShuttleConfiguration];
 
         if (globalOpts.json) {
           output({ [key]: value }, globalOpts);
@@ -122,13 +140,42 @@ function configListCommand(): Command {
   cmd
     .description('List all configuration values')
     .alias('ls')
-    .action(async (_options, command) => {
+    .option('--show-secrets', 'Show secret values such as apiToken unmasked')
+    .option('--show-origin', 'Show which layer (flag, env, project, user, default) each value came from')
+    .action(async (options, command) => {
       try {
         const globalOpts = getGlobalOptions(command);
-        const config = listConfig(globalOpts.config);
+        const resolved = resolveConfig({
+          configPath: globalOpts.config,
+          projectOverride: globalOpts.project,
+          context: globalOpts.context,
+        });
+        const config = maskSecrets(resolved.config, options.showSecrets);
+        const context = getCurrentContext(globalOpts.config, globalOpts.context);
 
-        if (globalOpts.json) {
-          output(config, globalOpts);
+        if (options.showOrigin) {
+          if (globalOpts.json) {
+            output(
+              { context, projectConfigPath: resolved.projectConfigPath, config, origins: resolved.origins },
+              globalOpts
+            );
+          } else if (!globalOpts.quiet) {
+            const table = createTable(
+              ['Key', 'Value', 'Origin'],
+              Object.entries(config).map(([key, value]) => {
+                const origin = resolved.origins[key as keyof ShuttleConfiguration];
+                return [
+                  key,
+                  value !== undefined ? String(value) : '(not set)',
+                  origin ? `${origin.layer}${origin.source ? ` (${origin.source})` : ''}` : '-',
+                ];
+              })
+            );
+            console.log(`Current configuration (context: ${context}):`);
+            console.log(table.toString());
+          }
+        } else if (globalOpts.json) {
+          output({ context, ...config }, globalOpts);
         } else {
           const displayConfig: Record<string, any> = {};
           Object.entries(config).forEach(([key, value]) => {
@@ -136,7 +183,7 @@ function configListCommand(): Command {
           });
 
           if (!globalOpts.quiet) {
-            console.log('Current configuration:');
+            console.log(`Current configuration (context: ${context}):`);
             console.log(formatKeyValue(displayConfig));
           }
         }
@@ -149,19 +196,138 @@ function configListCommand(): Command {
   return cmd;
 }
 
+/**
+ * Mask secret values unless they were explicitly requested
+ */
+function maskSecrets(config: ShuttleConfiguration, showSecrets?: boolean): ShuttleConfiguration {
+  if (showSecrets) {
+    return config;
+  }
+
+  const masked: Record<string, unknown> = { ...config };
+  for (const key of SECRET_CONFIG_KEYS) {
+    masked[key] = maskSecret(config[key] as string | undefined);
+  }
+  return masked as unknown as ShuttleConfiguration;
+}
+
 function configPathCommand(): Command {
   const cmd = new Command('path');
 
   cmd
-    .description('Show the configuration file path')
+    .description('Show the configuration file path, and the project config file if one applies')
     .action((_options, command) => {
       const globalOpts = getGlobalOptions(command);
       const path = globalOpts.config || getDefaultConfigPath();
+      const projectPath = findProjectConfig(process.cwd(), path);
 
       if (globalOpts.json) {
-        output({ configPath: path }, globalOpts);
+        output({ configPath: path, projectConfigPath: projectPath }, globalOpts);
       } else {
         output(path, globalOpts);
+        if (projectPath) {
+          output(`${projectPath} (project)`, globalOpts);
+        }
+      }
+    });
+
+  return cmd;
+}
+
+function configGetContextsCommand(): Command {
+  const cmd = new Command('get-contexts');
+
+  cmd
+    .description('List configured contexts')
+    .action((_options, command) => {
+      try {
+        const globalOpts = getGlobalOptions(command);
+        const contexts = listContexts(globalOpts.config, globalOpts.context);
+
+        if (globalOpts.json) {
+          output({ contexts }, globalOpts);
+        } else {
+          const table = createTable(
+            ['Current', 'Name', 'API URL', 'Project'],
+            contexts.map((context) => [
+              context.current ? '*' : '',
+              context.name,
+              context.apiUrl || '(not set)',
+              context.projectId || '(not set)',
+            ])
+          );
+          console.log(table.toString());
+        }
+      } catch (err: any) {
+        error(`Failed to list contexts: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function configUseContextCommand(): Command {
+  const cmd = new Command('use-context');
+
+  cmd
+    .description('Switch the current context')
+    .argument('<name>', 'Context name')
+    .action((name: string, _options, command) => {
+      try {
+        const globalOpts = getGlobalOptions(command);
+        useContext(name, globalOpts.config);
+        success(`Switched to context "${name}"`, globalOpts);
+      } catch (err: any) {
+        error(`Failed to switch context: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function configSetContextCommand(): Command {
+  const cmd = new Command('set-context');
+
+  cmd
+    .description('Create or update a context')
+    .argument('<name>', 'Context name')
+    .option('--api-url <url>', 'Weft coordinator API URL')
+    .option('--api-token <token>', 'API auth token')
+    .option('--project-id <id>', 'Project ID')
+    .option('--nats-url <url>', 'NATS URL')
+    .option('--default-boundary <name>', 'Default work boundary')
+    .option('--default-priority <n>', 'Default priority (1-10)', parseInt)
+    .option('--use', 'Switch to the context after saving it')
+    .action((name: string, options, command) => {
+      try {
+        const globalOpts = getGlobalOptions(command);
+
+        const values: Partial<ShuttleConfiguration> = {};
+        if (options.apiUrl !== undefined) values.apiUrl = options.apiUrl;
+        if (options.apiToken !== undefined) values.apiToken = options.apiToken;
+        if (options.projectId !== undefined) values.projectId = options.projectId;
+        if (options.natsUrl !== undefined) values.natsUrl = options.natsUrl;
+        if (options.defaultBoundary !== undefined) values.defaultBoundary = options.defaultBoundary;
+        if (options.defaultPriority !== undefined) values.defaultPriority = options.defaultPriority;
+
+        const errors = validateConfig(values);
+        if (errors.length > 0) {
+          error('Configuration validation failed:', globalOpts);
+          errors.forEach((err) => error(`  - ${err}`, globalOpts));
+          process.exit(1);
+        }
+
+        setContext(name, values, globalOpts.config);
+        if (options.use) {
+          useContext(name, globalOpts.config);
+        }
+
+        success(`Context "${name}" saved${options.use ? ' and selected' : ''}`, globalOpts);
+      } catch (err: any) {
+        error(`Failed to set context: ${err.message}`, {});
+        process.exit(1);
       }
     });
 
@@ -0,0 +1,122 @@
+/**
+ * Login and logout commands - Manage the stored API token
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import {
+  loadConfig,
+  saveConfig,
+  removeApiToken,
+  getCurrentContext,
+} from '../utils/config-file.js';
+import { createAPIClient } from '../api/client.js';
+import { promptSecret } from '../utils/prompts.js';
+import { output, success, error } from '../utils/output.js';
+import { getGlobalOptions } from '../cli.js';
+
+export function loginCommand(): Command {
+  const cmd = new Command('login');
+
+  cmd
+    .description('Verify an API token and save it to the credential store')
+    .option('--api-url <url>', 'Weft coordinator API URL (saved with the token)')
+    .option('--token <token>', 'API token (prompted for if omitted)')
+    .option('--no-verify', 'Save the token without checking it against the coordinator')
+    .addHelpText(
+      'after',
+      `
+The token is verified with an authenticated request (GET /stats). The /health
+endpoint does not require authentication, so it would accept any token.`
+    )
+    .action(async (options, command) => {
+      const globalOpts = getGlobalOptions(command);
+      const spinner = ora();
+
+      try {
+        const config = loadConfig({ configPath: globalOpts.config, context: globalOpts.context });
+        const apiUrl = options.apiUrl || config.apiUrl;
+
+        if (!apiUrl) {
+          error('No API URL configured; pass --api-url', globalOpts);
+          process.exit(1);
+        }
+
+        const apiToken = options.token || (await promptSecret('API token:'));
+
+        if (options.verify) {
+          if (!globalOpts.quiet) {
+            spinner.start(`Verifying token against ${apiUrl}...`);
+          }
+
+          // Stats requires authentication, unlike the health endpoint, so a bad token is rejected
+          const client = createAPIClient({ apiUrl, apiToken });
+          const response = await client.getStats();
+
+          if (response.status === 401 || response.status === 403) {
+            throw new Error('The coordinator rejected the token');
+          }
+          if (!response.ok) {
+            throw new Error(response.error || `HTTP ${response.status}`);
+          }
+
+          if (spinner.isSpinning) {
+            spinner.succeed('Token verified');
+          }
+        }
+
+        saveConfig(
+          options.apiUrl ? { apiUrl, apiToken } : { apiToken },
+          globalOpts.config,
+          globalOpts.context
+        );
+
+        const context = getCurrentContext(globalOpts.config, globalOpts.context);
+        const store = config.credentialCommand ? 'credential helper' : 'credential store';
+
+        if (globalOpts.json) {
+          output({ context, apiUrl, loggedIn: true }, globalOpts);
+        } else {
+          success(`Logged in to ${apiUrl} (context: ${context}); token saved to the ${store}`, globalOpts);
+        }
+      } catch (err: any) {
+        if (spinner.isSpinning) {
+          spinner.fail('Login failed');
+        }
+        error(`Error: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+export function logoutCommand(): Command {
+  const cmd = new Command('logout');
+
+  cmd
+    .description('Remove the stored API token for the current context')
+    .action((_options, command) => {
+      const globalOpts = getGlobalOptions(command);
+
+      try {
+        const context = getCurrentContext(globalOpts.config, globalOpts.context);
+        const store = removeApiToken(globalOpts.config, globalOpts.context);
+
+        if (globalOpts.json) {
+          output({ context, loggedIn: false }, globalOpts);
+        } else {
+          success(`Removed API token for context "${context}" from ${store}`, globalOpts);
+        }
+
+        if (process.env.LOOM_API_TOKEN && !globalOpts.quiet) {
+          console.log('Note: LOOM_API_TOKEN is still set in the environment');
+        }
+      } catch (err: any) {
+        error(`Failed to log out: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
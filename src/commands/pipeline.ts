@@ -0,0 +1,291 @@
+/**
+ * Pipeline command - Submit a DAG of dependent work items
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadConfig } from '../utils/config-file.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import {
+  output,
+  success,
+  error,
+  info,
+  warning,
+  colorStatus,
+  truncate,
+  createLiveRegion,
+} from '../utils/output.js';
+import { readDataFile } from '../utils/data-file.js';
+import {
+  parsePipeline,
+  nodeDepths,
+  descendantsOf,
+  createPipelineState,
+  resumePipelineState,
+  loadPipelineState,
+  savePipelineState,
+  readyNodes,
+  activeNodes,
+  isPipelineFinished,
+  nodeTaskId,
+  type Pipeline,
+  type PipelineState,
+} from '../utils/pipeline.js';
+import { isTerminalStatus } from '../utils/work-status.js';
+import { sleep } from '../utils/polling.js';
+import { parseSeconds } from '../utils/duration.js';
+import { getGlobalOptions } from '../cli.js';
+
+export function pipelineCommand(): Command {
+  const cmd = new Command('pipeline');
+
+  cmd
+    .description('Run pipelines of dependent work items')
+    .addCommand(pipelineRunCommand());
+
+  return cmd;
+}
+
+function pipelineRunCommand(): Command {
+  const cmd = new Command('run');
+
+  cmd
+    .description('Submit a pipeline, releasing each node once its dependencies complete')
+    .argument('<file>', 'Pipeline definition (YAML or JSON)')
+    .option('--interval <seconds>', 'Polling interval in seconds', '5')
+    .option('--state-file <path>', 'Where to record progress (default: <file>.state.json)')
+    .option('--resume', 'Resume from the state file, retrying failed and skipped nodes')
+    .option('--fresh', 'Ignore and overwrite an existing state file')
+    .option('--on-failure <mode>', 'When a node fails: skip its dependents, or abort the whole run (skip|abort)', 'skip')
+    .action(async (file: string, options, command) => {
+      const globalOpts = getGlobalOptions(command);
+
+      try {
+        const config = loadConfig({
+          configPath: globalOpts.config,
+          projectOverride: globalOpts.project,
+          context: globalOpts.context,
+        });
+
+        if (!['skip', 'abort'].includes(options.onFailure)) {
+          error(`Invalid --on-failure mode: ${options.onFailure} (expected skip or abort)`, globalOpts);
+          process.exit(1);
+        }
+
+        const { pipeline, errors } = parsePipeline(await readDataFile(file), {
+          boundary: config.defaultBoundary,
+          priority: config.defaultPriority,
+        });
+
+        if (!pipeline) {
+          error(`Pipeline validation failed (${errors.length} problem(s)):`, globalOpts);
+          errors.forEach((message) => error(`  - ${message}`, globalOpts));
+          process.exit(1);
+        }
+
+        const pollInterval = parseSeconds(options.interval, '--interval');
+
+        const stateFile = options.stateFile || `${file}.state.json`;
+        const savedState = loadPipelineState(stateFile);
+        let state: PipelineState;
+
+        if (savedState && options.resume) {
+          state = resumePipelineState(pipeline, savedState);
+          info(`Resuming pipeline from ${stateFile}`, globalOpts);
+        } else if (savedState && !options.fresh) {
+          error(`State file ${stateFile} already exists`, globalOpts);
+          error('Use --resume to continue that run or --fresh to start over', globalOpts);
+          process.exit(1);
+        } else {
+          state = createPipelineState(pipeline);
+        }
+
+        savePipelineState(stateFile, state);
+
+        const client = createAPIClient(config);
+        const live = globalOpts.json || globalOpts.quiet ? undefined : createLiveRegion();
+
+        process.on('SIGINT', () => {
+          savePipelineState(stateFile, state);
+          console.log();
+          info(`Interrupted. Resume with: shuttle pipeline run ${file} --resume`, globalOpts);
+          process.exit(130);
+        });
+
+        let aborted = false;
+
+        while (true) {
+          if (!aborted) {
+            await submitReadyNodes(client, pipeline, state);
+          }
+
+          for (const [id, nodeState] of Object.entries(state.nodes)) {
+            if (nodeState.status === 'failed' || nodeState.status === 'cancelled') {
+              if (options.onFailure === 'abort') {
+                aborted = true;
+              }
+              skipNodes(state, descendantsOf(pipeline, id), `dependency ${id} ${nodeState.status}`);
+            }
+          }
+
+          if (aborted) {
+            skipNodes(
+              state,
+              Object.keys(state.nodes).filter((id) => state.nodes[id]?.status === 'waiting'),
+              'pipeline aborted'
+            );
+          }
+
+          savePipelineState(stateFile, state);
+          live?.update(renderPipelineTree(pipeline, state));
+
+          if (isPipelineFinished(state) || (aborted && activeNodes(pipeline, state).length === 0)) {
+            break;
+          }
+
+          await sleep(pollInterval);
+          await pollActiveNodes(client, pipeline, state);
+        }
+
+        live?.done();
+
+        const counts = countStatuses(state);
+        const allCompleted = counts.completed === pipeline.nodes.length;
+
+        if (globalOpts.json) {
+          output({ stateFile, ...state }, globalOpts);
+        } else {
+          console.log();
+          const summary = Object.entries(counts)
+            .map(([status, count]) => `${count} ${status}`)
+            .join(', ');
+          if (allCompleted) {
+            success(`Pipeline completed (${summary})`, globalOpts);
+          } else {
+            warning(`Pipeline finished with problems (${summary})`, globalOpts);
+            info(`Retry failed nodes with: shuttle pipeline run ${file} --resume`, globalOpts);
+          }
+        }
+
+        process.exit(allCompleted ? 0 : 1);
+      } catch (err: any) {
+        error(`Error: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * Submit every node whose dependencies have completed
+ */
+async function submitReadyNodes(
+  client: WeftAPIClient,
+  pipeline: Pipeline,
+  state: PipelineState
+): Promise<void> {
+  for (const node of readyNodes(pipeline, state)) {
+    const nodeState = state.nodes[node.id]!;
+    nodeState.taskId = nodeTaskId(node, nodeState);
+    nodeState.attempts = (nodeState.attempts ?? 0) + 1;
+
+    const response = await client.submitWork({
+      ...node.item,
+      taskId: nodeState.taskId,
+      contextData: {
+        ...node.item.contextData,
+        pipelineNode: node.id,
+        dependsOn: node.dependsOn.map((dep) => state.nodes[dep]?.workItemId || dep),
+      },
+    });
+
+    const workItemId = response.data?.workItemId || response.data?.id;
+    if (response.ok && workItemId) {
+      nodeState.status = 'pending';
+      nodeState.workItemId = workItemId;
+      nodeState.submittedAt = new Date().toISOString();
+      nodeState.error = undefined;
+    } else if (response.ok) {
+      // Without an ID the node could never be polled and the run would not end
+      nodeState.status = 'failed';
+      nodeState.error = `Submission returned no work item ID: ${JSON.stringify(response.data)}`;
+      nodeState.finishedAt = new Date().toISOString();
+    } else {
+      nodeState.status = 'failed';
+      nodeState.error = `Submission failed: ${response.error || `HTTP ${response.status}`}`;
+      nodeState.finishedAt = new Date().toISOString();
+    }
+  }
+}
+
+/**
+ * Refresh the status of every submitted, unfinished node
+ * Fetch errors are recorded and retried on the next poll.
+ */
+async function pollActiveNodes(
+  client: WeftAPIClient,
+  pipeline: Pipeline,
+  state: PipelineState
+): Promise<void> {
+  for (const node of activeNodes(pipeline, state)) {
+    const nodeState = state.nodes[node.id]!;
+    const response = await client.getWork(nodeState.workItemId!);
+
+    if (!response.ok) {
+      nodeState.error = `Failed to fetch status: ${response.error || `HTTP ${response.status}`}`;
+      continue;
+    }
+
+    const workItem = response.data!;
+    nodeState.status = workItem.status;
+    nodeState.error = workItem.error?.message;
+    if (isTerminalStatus(workItem.status)) {
+      nodeState.finishedAt = new Date().toISOString();
+    }
+  }
+}
+
+function skipNodes(state: PipelineState, ids: string[], reason: string): void {
+  for (const id of ids) {
+    const nodeState = state.nodes[id];
+    if (nodeState?.status === 'waiting') {
+      nodeState.status = 'skipped';
+      nodeState.error = reason;
+    }
+  }
+}
+
+function countStatuses(state: PipelineState): Record<string, number> {
+  const counts: Record<string, number> = { completed: 0 };
+  for (const nodeState of Object.values(state.nodes)) {
+    counts[nodeState.status] = (counts[nodeState.status] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Render nodes in dependency order, indented by depth
+ */
+function renderPipelineTree(pipeline: Pipeline, state: PipelineState): string {
+  const depths = nodeDepths(pipeline);
+  const ordered = [...pipeline.nodes].sort(
+    (a, b) => (depths.get(a.id) || 0) - (depths.get(b.id) || 0)
+  );
+
+  return ordered
+    .map((node) => {
+      const nodeState = state.nodes[node.id]!;
+      const depth = depths.get(node.id) || 0;
+      const prefix = depth === 0 ? '' : '   '.repeat(depth - 1) + '└─ ';
+      const status = nodeState.status === 'waiting' || nodeState.status === 'skipped'
+        ? chalk.gray(nodeState.status)
+        : colorStatus(nodeState.status);
+      const after = node.dependsOn.length > 0 ? chalk.gray(` after ${node.dependsOn.join(', ')}`) : '';
+      const workId = nodeState.workItemId ? chalk.gray(` [${truncate(nodeState.workItemId, 12)}]`) : '';
+      const detail = nodeState.error ? chalk.red(` ${nodeState.error}`) : '';
+      return `${prefix}${chalk.bold(node.id)} ${status}${workId}${after}${detail}`;
+    })
+    .join('\n');
+}
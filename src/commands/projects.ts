@@ -22,6 +22,7 @@ export function projectsCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
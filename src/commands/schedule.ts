@@ -0,0 +1,454 @@
+/**
+ * Schedule command - Submit work on a recurring schedule
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import chalk from 'chalk';
+import type { Priority } from '@mdlopresti/loom-shared';
+import { loadConfig } from '../utils/config-file.js';
+import { createAPIClient } from '../api/client.js';
+import { AGENT_TYPES, isAgentType } from '../api/models.js';
+import {
+  output,
+  success,
+  error,
+  info,
+  warning,
+  createTable,
+  formatKeyValue,
+  formatTimestamp,
+  truncate,
+} from '../utils/output.js';
+import { confirm } from '../utils/prompts.js';
+import { buildContextData, parseKeyValuePairs } from '../utils/context-data.js';
+import { loadTemplate, renderTemplate } from '../utils/templates.js';
+import { sleep } from '../utils/polling.js';
+import {
+  addSchedule,
+  loadSchedules,
+  nextScheduleRun,
+  recordScheduleRun,
+  removeSchedule,
+  resolveSchedule,
+  runSchedule,
+  updateSchedule,
+  type Schedule,
+  type ScheduleRun,
+} from '../utils/schedules.js';
+import { getGlobalOptions, type GlobalOptions } from '../cli.js';
+
+/** Longest the daemon sleeps before re-reading the schedules file */
+const MAX_DAEMON_SLEEP_MS = 30 * 1000;
+
+export function scheduleCommand(): Command {
+  const cmd = new Command('schedule');
+
+  cmd.description('Submit work on a recurring schedule').action(scheduleListAction);
+
+  cmd
+    .command('add')
+    .description('Add a schedule that submits work whenever its cron expression matches')
+    .argument('[description]', 'Task description')
+    .requiredOption('--cron <expression>', 'Cron expression, e.g. "0 2 * * *" or @daily (local time)')
+    .option('--name <name>', 'Schedule name (default: the first words of the description)')
+    .option('--boundary <name>', 'Work boundary')
+    .option('--capability <name>', 'Required capability')
+    .option('--priority <n>', 'Priority level (1-10)', parseInt)
+    .option('--agent-type <type>', 'Required agent type (copilot-cli|claude-code)')
+    .option('--ctx <key=value>', 'Context value for the agent (repeatable)', collect, [])
+    .option('--context-file <path>', 'JSON or YAML file of context values')
+    .option('-t, --template <name>', 'Start from a saved work template')
+    .option('--var <key=value>', 'Template variable value (repeatable)', collect, [])
+    .action(scheduleAddAction);
+
+  cmd
+    .command('list')
+    .alias('ls')
+    .description('List schedules with their next and last runs')
+    .action(scheduleListAction);
+
+  cmd
+    .command('remove')
+    .alias('rm')
+    .description('Remove a schedule')
+    .argument('<schedule>', 'Schedule name, ID or unique ID prefix')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(scheduleRemoveAction);
+
+  cmd
+    .command('pause')
+    .description('Stop a schedule from running until it is resumed')
+    .argument('<schedule>', 'Schedule name, ID or unique ID prefix')
+    .action((ref: string, _options: any, command: Command) => setPaused(ref, true, command));
+
+  cmd
+    .command('resume')
+    .description('Resume a paused schedule')
+    .argument('<schedule>', 'Schedule name, ID or unique ID prefix')
+    .action((ref: string, _options: any, command: Command) => setPaused(ref, false, command));
+
+  cmd
+    .command('trigger-now')
+    .description('Run a schedule immediately')
+    .argument('<schedule>', 'Schedule name, ID or unique ID prefix')
+    .action(scheduleTriggerAction);
+
+  cmd
+    .command('run')
+    .description('Run the scheduler in the foreground, submitting work as schedules come due')
+    .action(scheduleRunAction);
+
+  return cmd;
+}
+
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function formatNextRun(schedule: Schedule): string {
+  if (schedule.paused) {
+    return chalk.gray('paused');
+  }
+  try {
+    return nextScheduleRun(schedule).toLocaleString();
+  } catch (err: any) {
+    return chalk.red(err.message);
+  }
+}
+
+/**
+ * Next run for JSON output; a cron that can never match has none
+ */
+function nextRunIso(schedule: Schedule): string | undefined {
+  try {
+    return nextScheduleRun(schedule).toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+function formatRun(run: ScheduleRun | undefined): string {
+  if (!run) {
+    return '-';
+  }
+  const outcome =
+    run.outcome === 'submitted'
+      ? chalk.green(run.outcome)
+      : run.outcome === 'skipped'
+        ? chalk.yellow(run.outcome)
+        : chalk.red(run.outcome);
+  return `${formatTimestamp(run.at)} ${outcome}`;
+}
+
+async function scheduleAddAction(description: string | undefined, options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    // Templates are rendered now; every run submits the same work
+    let templateContext: Record<string, unknown> | undefined;
+    if (options.template) {
+      const template = renderTemplate(loadTemplate(options.template), parseKeyValuePairs(options.var, 'variable'));
+      description = description || template.description;
+      options.boundary = options.boundary || template.boundary;
+      options.capability = options.capability || template.capability;
+      options.priority = options.priority || template.priority;
+      options.agentType = options.agentType || template.agentType;
+      templateContext = template.contextData;
+    } else if (options.var.length > 0) {
+      throw new Error('--var requires --template');
+    }
+
+    const boundary = options.boundary || config.defaultBoundary;
+    if (!description) {
+      throw new Error('Description is required');
+    }
+    if (!boundary) {
+      throw new Error('Boundary is required (use --boundary)');
+    }
+    if (!options.capability) {
+      throw new Error('Capability is required (use --capability)');
+    }
+    if (options.agentType && !isAgentType(options.agentType)) {
+      throw new Error(`Invalid agent type: ${options.agentType} (valid values: ${AGENT_TYPES.join(', ')})`);
+    }
+
+    const flagContext = await buildContextData({ pairs: options.ctx, file: options.contextFile });
+    const contextData = templateContext || flagContext ? { ...templateContext, ...flagContext } : undefined;
+
+    const schedule = addSchedule({
+      name: options.name || options.template || description.split(/\s+/).slice(0, 4).join('-').toLowerCase(),
+      cron: options.cron,
+      work: {
+        description,
+        boundary,
+        capability: options.capability,
+        priority: (options.priority || config.defaultPriority || 5) as Priority,
+        agentType: options.agentType,
+        contextData,
+      },
+    });
+
+    if (globalOpts.json) {
+      output({ ...schedule, nextRunAt: nextScheduleRun(schedule).toISOString() }, globalOpts);
+    } else {
+      success(`Schedule "${schedule.name}" added (${schedule.id.slice(0, 8)})`, globalOpts);
+      info(`Next run: ${nextScheduleRun(schedule).toLocaleString()}`, globalOpts);
+      info('Schedules only run while "shuttle schedule run" is running', globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function scheduleListAction(_options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const schedules = loadSchedules();
+
+    if (globalOpts.json) {
+      output(
+        {
+          schedules: schedules.map((schedule) => ({
+            ...schedule,
+            nextRunAt: schedule.paused ? undefined : nextRunIso(schedule),
+          })),
+        },
+        globalOpts
+      );
+    } else {
+      if (schedules.length === 0) {
+        console.log('No schedules found');
+        return;
+      }
+
+      const table = createTable(
+        ['ID', 'Name', 'Cron', 'Description', 'Next Run', 'Last Run'],
+        schedules.map((schedule) => [
+          schedule.id.slice(0, 8),
+          schedule.name,
+          schedule.cron,
+          truncate(schedule.work.description, 30),
+          formatNextRun(schedule),
+          formatRun(schedule.lastRun),
+        ])
+      );
+
+      console.log(table.toString());
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function scheduleRemoveAction(ref: string, options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const schedule = resolveSchedule(loadSchedules(), ref);
+
+    if (!options.yes && !globalOpts.json) {
+      const confirmed = await confirm(`Remove schedule "${schedule.name}" (${schedule.cron})?`);
+      if (!confirmed) {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    removeSchedule(schedule.id);
+
+    if (globalOpts.json) {
+      output({ id: schedule.id, name: schedule.name, removed: true }, globalOpts);
+    } else {
+      success(`Schedule "${schedule.name}" removed`, globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function setPaused(ref: string, paused: boolean, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const schedule = updateSchedule(resolveSchedule(loadSchedules(), ref).id, (entry) => {
+      entry.paused = paused;
+    });
+
+    if (globalOpts.json) {
+      output(schedule, globalOpts);
+    } else {
+      success(`Schedule "${schedule.name}" ${paused ? 'paused' : 'resumed'}`, globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function scheduleTriggerAction(ref: string, _options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    const schedule = resolveSchedule(loadSchedules(), ref);
+
+    if (!globalOpts.quiet) {
+      spinner.start(`Running schedule "${schedule.name}"...`);
+    }
+
+    const run = await runSchedule(createAPIClient(config), schedule, 'manual');
+    recordScheduleRun(schedule.id, run);
+
+    if (spinner.isSpinning) {
+      if (run.outcome === 'failed') {
+        spinner.fail(`Schedule "${schedule.name}" failed: ${run.message}`);
+      } else if (run.outcome === 'skipped') {
+        spinner.warn(`Schedule "${schedule.name}" skipped: ${run.message}`);
+      } else {
+        spinner.succeed(`Schedule "${schedule.name}" submitted work`);
+      }
+    }
+
+    if (globalOpts.json) {
+      output({ schedule: schedule.id, ...run }, globalOpts);
+    } else if (run.outcome === 'submitted') {
+      console.log();
+      console.log(formatKeyValue({ 'Work Item ID': run.workItemId || 'N/A' }));
+      console.log();
+      info(`Track progress with: shuttle work show ${run.workItemId}`, globalOpts);
+    }
+
+    if (run.outcome === 'failed') {
+      process.exit(1);
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to run schedule');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+/**
+ * Report a daemon run, one line per run (one JSON object with --json)
+ */
+function reportRun(schedule: Schedule, run: ScheduleRun, globalOpts: GlobalOptions): void {
+  if (globalOpts.json) {
+    console.log(JSON.stringify({ schedule: schedule.id, name: schedule.name, ...run }));
+    return;
+  }
+
+  const prefix = `[${new Date(run.at).toLocaleString()}] ${schedule.name}:`;
+  if (run.outcome === 'submitted') {
+    success(`${prefix} submitted work item ${run.workItemId}`, globalOpts);
+  } else if (run.outcome === 'skipped') {
+    warning(`${prefix} skipped (${run.message})`, globalOpts);
+  } else {
+    error(`${prefix} submission failed: ${run.message}`, globalOpts);
+  }
+}
+
+/**
+ * Foreground scheduler
+ * Schedules are re-read on every tick so add/remove/pause take effect without
+ * a restart. Runs missed while the scheduler was not running are not caught up.
+ */
+async function scheduleRunAction(_options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    const client = createAPIClient(config);
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    // Next due time per schedule ID
+    const dueAt = new Map<string, number>();
+    const invalid = new Set<string>();
+
+    if (!globalOpts.json) {
+      info(`Scheduler started with ${loadSchedules().length} schedule(s); press Ctrl+C to stop`, globalOpts);
+    }
+
+    while (!controller.signal.aborted) {
+      const schedules = loadSchedules();
+      const now = new Date();
+
+      for (const id of dueAt.keys()) {
+        if (!schedules.some((schedule) => schedule.id === id && !schedule.paused)) {
+          dueAt.delete(id);
+        }
+      }
+
+      for (const schedule of schedules) {
+        if (schedule.paused || controller.signal.aborted) {
+          continue;
+        }
+
+        try {
+          const due = dueAt.get(schedule.id);
+          if (due === undefined) {
+            dueAt.set(schedule.id, nextScheduleRun(schedule, now).getTime());
+            continue;
+          }
+          if (due > now.getTime()) {
+            continue;
+          }
+
+          const run = await runSchedule(client, schedule, 'cron', now);
+          recordScheduleRun(schedule.id, run);
+          reportRun(schedule, run, globalOpts);
+          dueAt.set(schedule.id, nextScheduleRun(schedule, now).getTime());
+        } catch (err: any) {
+          // Report a broken schedule once rather than on every tick
+          if (!invalid.has(schedule.id)) {
+            invalid.add(schedule.id);
+            error(`Schedule "${schedule.name}": ${err.message}`, globalOpts);
+          }
+        }
+      }
+
+      const nextDue = Math.min(...dueAt.values());
+      await sleep(Math.max(1000, Math.min(MAX_DAEMON_SLEEP_MS, nextDue - Date.now())), controller.signal);
+    }
+
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+
+    if (!globalOpts.json) {
+      console.log();
+      info('Scheduler stopped', globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
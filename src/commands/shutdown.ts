@@ -3,24 +3,82 @@
  */
 
 import { Command } from 'commander';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
+import chalk from 'chalk';
 import { loadConfig } from '../utils/config-file.js';
-import { createAPIClient } from '../api/client.js';
-import { output, success, error, warning } from '../utils/output.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import type { Agent } from '../api/models.js';
+import {
+  output,
+  success,
+  error,
+  warning,
+  createTable,
+  colorStatus,
+  colorAgentType,
+  formatDuration,
+  truncate,
+} from '../utils/output.js';
 import { confirm } from '../utils/prompts.js';
 import { getGlobalOptions } from '../cli.js';
+import { parseDuration } from '../utils/duration.js';
+import { mapConcurrent } from '../utils/concurrency.js';
+import {
+  idleTimeMs,
+  lastActivityByAgent,
+  selectAgents,
+  type AgentSelector,
+} from '../utils/agent-selector.js';
+import { waitForAgentsGone } from '../utils/wait-for-agent.js';
+import { fetchAgent, lookupAgent, type AgentLookup } from '../utils/resolve-id.js';
+
+const SHUTDOWN_CONCURRENCY = 10;
+
+interface ShutdownResult {
+  guid: string;
+  handle?: string;
+  ok: boolean;
+  message?: string;
+  /** Whether a forced shutdown was sent after the grace period, with --escalate */
+  escalated?: boolean;
+  /** Whether the agent left before --timeout, with --wait */
+  gone?: boolean;
+}
+
+interface DrainOptions {
+  escalate: boolean;
+  gracePeriodMs: number;
+  /** Wait for the agents to leave for at most this long; no waiting when undefined */
+  timeoutMs?: number;
+  onPoll: (present: Agent[]) => void;
+}
+
+interface DrainResult {
+  /** Forced shutdowns sent after the grace period, by GUID */
+  escalated: Map<string, { ok: boolean; message?: string }>;
+  /** Agents still running at the timeout, when waiting */
+  remaining?: string[];
+}
 
 export function shutdownCommand(): Command {
   const cmd = new Command('shutdown');
 
   cmd
     .description('Request agent shutdown')
-    .argument('<agent-guid>', 'Agent GUID to shutdown')
+    .argument('[agents...]', 'Agent GUID(s), handles or unique GUID prefixes to shutdown')
+    .option('--type <type>', 'Select agents by type')
+    .option('--capability <name>', 'Select agents with a capability')
+    .option('--status <status>', 'Select agents by status (online|busy|idle)')
+    .option('--idle-for <duration>', 'Select agents that have had no work for this long (e.g. 30m)')
+    .option('--all', 'Select every registered agent')
     .option('--graceful', 'Wait for current work to complete (default: true)', true)
     .option('--force', 'Force immediate shutdown without waiting')
     .option('--grace-period <ms>', 'Grace period in milliseconds', '30000')
+    .option('--escalate', 'Force shutdown of agents still running when the grace period expires')
+    .option('--wait', 'Wait until the agents have left')
+    .option('--timeout <duration>', 'With --wait, give up after this long', '5m')
     .option('-y, --yes', 'Skip confirmation prompt')
-    .action(async (agentGuid: string, options, command) => {
+    .action(async (agentGuids: string[], options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
 
@@ -28,12 +86,146 @@ export function shutdownCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
-        // Confirm shutdown unless --yes flag
+        const selector: AgentSelector = {
+          type: options.type,
+          capability: options.capability,
+          status: options.status,
+          idleForMs: options.idleFor ? parseDuration(options.idleFor) : undefined,
+        };
+        const hasSelector = options.all || Object.values(selector).some((value) => value !== undefined);
+
+        if (agentGuids.length > 0 && hasSelector) {
+          throw new Error('Pass either agent GUIDs or selectors (--type, --capability, --status, --idle-for, --all), not both');
+        }
+        if (agentGuids.length === 0 && !hasSelector) {
+          throw new Error('Pass an agent GUID or a selector (--type, --capability, --status, --idle-for, --all)');
+        }
+
+        const client = createAPIClient(config);
+        const graceful = options.force ? false : options.graceful !== false;
+        const gracePeriodMs = parseInt(options.gracePeriod, 10);
+        if (!Number.isInteger(gracePeriodMs) || gracePeriodMs < 0) {
+          throw new Error('--grace-period must be a number of milliseconds');
+        }
+        if (options.escalate && !graceful) {
+          throw new Error('--escalate only applies to graceful shutdowns; drop --force');
+        }
+        const drain: DrainOptions = {
+          escalate: !!options.escalate,
+          gracePeriodMs,
+          timeoutMs: options.wait ? parseDuration(options.timeout) : undefined,
+          onPoll: (present) => {
+            if (!globalOpts.quiet) {
+              spinner.text = describeRemaining(present);
+            }
+          },
+        };
+
+        // A single agent by GUID keeps the original prompt and output
+        if (agentGuids.length === 1) {
+          const agentGuid = (await fetchAgent(client, agentGuids[0]!)).guid;
+
+          // Confirm shutdown unless --yes flag
+          if (!options.yes && !globalOpts.json) {
+            const confirmed = await confirm(
+              `Are you sure you want to shutdown agent ${agentGuid}?`,
+              false
+            );
+            if (!confirmed) {
+              warning('Shutdown cancelled', globalOpts);
+              process.exit(0);
+            }
+          }
+
+          if (!globalOpts.quiet) {
+            spinner.start('Sending shutdown request...');
+          }
+
+          const response = await client.shutdownAgent(agentGuid, graceful, graceful ? gracePeriodMs : undefined);
+
+          if (!response.ok) {
+            throw new Error(response.error || `HTTP ${response.status}`);
+          }
+
+          const result = response.data;
+
+          if (!globalOpts.quiet) {
+            spinner.succeed('Shutdown request sent');
+          }
+
+          let drained: DrainResult | undefined;
+          if ((options.escalate || options.wait) && result?.success !== false) {
+            if (!globalOpts.quiet) {
+              spinner.start('Waiting for agent to finish its work...');
+            }
+            drained = await drainAgents(client, [agentGuid], drain);
+            if (!globalOpts.quiet) {
+              reportDrain(spinner, drained, options.timeout);
+            }
+          }
+          const escalation = drained?.escalated.get(agentGuid);
+          const gone = drained?.remaining ? drained.remaining.length === 0 : undefined;
+
+          // Output results
+          if (globalOpts.json) {
+            output(drained ? { ...result, escalated: escalation !== undefined, gone } : result, globalOpts);
+          } else {
+            if (result?.success !== false) {
+              success('Agent shutdown requested', globalOpts);
+              if (escalation !== undefined) {
+                if (escalation.ok) {
+                  warning('Agent was still running after the grace period and was shut down forcibly', globalOpts);
+                } else {
+                  error(`Forced shutdown failed: ${escalation.message}`, globalOpts);
+                }
+              } else if (graceful && !drained) {
+                warning(
+                  `Agent will shutdown after completing current work (max ${gracePeriodMs / 1000}s)`,
+                  globalOpts
+                );
+              }
+            } else {
+              error(`Shutdown failed: ${result?.message || 'Unknown error'}`, globalOpts);
+              process.exit(1);
+            }
+          }
+
+          if (gone === false || escalation?.ok === false) {
+            process.exit(1);
+          }
+          return;
+        }
+
+        if (!globalOpts.quiet) {
+          spinner.start('Resolving agents...');
+        }
+
+        const agents = await resolveShutdownAgents(client, agentGuids, selector);
+
+        if (spinner.isSpinning) {
+          spinner.stop();
+        }
+
+        if (agents.length === 0) {
+          if (globalOpts.json) {
+            output({ results: [] }, globalOpts);
+          } else {
+            warning('No agents match the selection', globalOpts);
+          }
+          return;
+        }
+
+        // Preview and a single confirmation for the whole selection
+        if (!globalOpts.json) {
+          console.log(renderAgentPreview(agents));
+        }
+
         if (!options.yes && !globalOpts.json) {
           const confirmed = await confirm(
-            `Are you sure you want to shutdown agent ${agentGuid}?`,
+            `Shut down ${agents.length} agent(s)${graceful ? '' : ' immediately'}?`,
             false
           );
           if (!confirmed) {
@@ -43,41 +235,80 @@ export function shutdownCommand(): Command {
         }
 
         if (!globalOpts.quiet) {
-          spinner.start('Sending shutdown request...');
+          spinner.start(`Sending ${agents.length} shutdown request(s)...`);
         }
 
-        const client = createAPIClient(config);
-        const graceful = options.force ? false : options.graceful !== false;
+        const results = await mapConcurrent(agents, SHUTDOWN_CONCURRENCY, async ({ guid, agent }): Promise<ShutdownResult> => {
+          const response = await client.shutdownAgent(guid, graceful, graceful ? gracePeriodMs : undefined);
+          if (!response.ok) {
+            return { guid, handle: agent?.handle, ok: false, message: response.error || `HTTP ${response.status}` };
+          }
+          return {
+            guid,
+            handle: agent?.handle,
+            ok: response.data?.success !== false,
+            message: response.data?.message,
+          };
+        });
 
-        const response = await client.shutdownAgent(agentGuid, graceful);
+        const sent = results.filter((result) => result.ok);
 
-        if (!response.ok) {
-          throw new Error(response.error || `HTTP ${response.status}`);
+        if (!globalOpts.quiet) {
+          if (sent.length === results.length) {
+            spinner.succeed(`Shutdown requested for ${sent.length} agent(s)`);
+          } else {
+            spinner.fail(`${results.length - sent.length} of ${results.length} shutdown request(s) failed`);
+          }
         }
 
-        const result = response.data;
-
-        if (!globalOpts.quiet) {
-          spinner.succeed('Shutdown request sent');
+        if ((options.escalate || options.wait) && sent.length > 0) {
+          if (!globalOpts.quiet) {
+            spinner.start(`Waiting for ${sent.length} agent(s) to finish their work...`);
+          }
+          const drained = await drainAgents(
+            client,
+            sent.map((result) => result.guid),
+            drain
+          );
+          sent.forEach((result) => {
+            const escalation = drained.escalated.get(result.guid);
+            if (escalation) {
+              result.escalated = true;
+              if (!escalation.ok) {
+                result.ok = false;
+                result.message = `forced shutdown failed: ${escalation.message}`;
+              }
+            }
+            if (drained.remaining) {
+              result.gone = !drained.remaining.includes(result.guid);
+            }
+          });
+          if (!globalOpts.quiet) {
+            reportDrain(spinner, drained, options.timeout);
+          }
         }
 
-        // Output results
         if (globalOpts.json) {
-          output(result, globalOpts);
+          output({ results }, globalOpts);
         } else {
-          if (result?.success !== false) {
-            success('Agent shutdown requested', globalOpts);
-            if (graceful) {
-              const gracePeriodMs = parseInt(options.gracePeriod, 10);
-              warning(
-                `Agent will shutdown after completing current work (max ${gracePeriodMs / 1000}s)`,
-                globalOpts
-              );
-            }
-          } else {
-            error(`Shutdown failed: ${result?.message || 'Unknown error'}`, globalOpts);
-            process.exit(1);
-          }
+          const table = createTable(
+            ['GUID', 'Handle', 'Result'],
+            results.map((result) => [
+              truncate(result.guid, 12),
+              result.handle || '-',
+              !result.ok
+                ? chalk.red(`failed: ${result.message || 'Unknown error'}`)
+                : result.gone === false
+                  ? chalk.yellow('still running')
+                  : chalk.green(result.gone ? 'shut down' : 'requested') +
+                    (result.escalated ? chalk.yellow(' (forced after grace period)') : ''),
+            ])
+          );
+          console.log(table.toString());
+        }
+
+        if (results.some((result) => !result.ok || result.gone === false)) {
+          process.exit(1);
         }
       } catch (err: any) {
         if (spinner.isSpinning) {
@@ -90,3 +321,112 @@ export function shutdownCommand(): Command {
 
   return cmd;
 }
+
+/**
+ * Wait out the grace period and/or the agents' departure
+ * With escalation, agents still running when the grace period expires get a
+ * forced shutdown.
+ */
+async function drainAgents(client: WeftAPIClient, guids: string[], options: DrainOptions): Promise<DrainResult> {
+  const escalated: DrainResult['escalated'] = new Map();
+  let remaining = guids;
+
+  if (options.escalate) {
+    remaining = await waitForAgentsGone(client, remaining, {
+      timeoutMs: options.gracePeriodMs,
+      onPoll: options.onPoll,
+    });
+
+    await mapConcurrent(remaining, SHUTDOWN_CONCURRENCY, async (guid) => {
+      const response = await client.shutdownAgent(guid, false);
+      escalated.set(
+        guid,
+        response.ok
+          ? { ok: response.data?.success !== false, message: response.data?.message }
+          : { ok: false, message: response.error || `HTTP ${response.status}` }
+      );
+    });
+  }
+
+  if (options.timeoutMs === undefined) {
+    return { escalated };
+  }
+
+  remaining = await waitForAgentsGone(client, remaining, {
+    timeoutMs: options.timeoutMs,
+    onPoll: options.onPoll,
+  });
+  return { escalated, remaining };
+}
+
+function describeRemaining(present: Agent[]): string {
+  const tasks = present.reduce((sum, agent) => sum + (agent.currentTaskCount || 0), 0);
+  return present.length === 1
+    ? `Waiting for agent ${truncate(present[0]!.handle || present[0]!.guid, 20)} (${tasks} task(s) remaining)...`
+    : `Waiting for ${present.length} agent(s) (${tasks} task(s) remaining)...`;
+}
+
+function reportDrain(spinner: Ora, drained: DrainResult, timeout: string): void {
+  if (drained.remaining && drained.remaining.length > 0) {
+    spinner.fail(`${drained.remaining.length} agent(s) still running after ${timeout}`);
+  } else if (drained.escalated.size > 0) {
+    spinner.warn(`Forced shutdown of ${drained.escalated.size} agent(s) still running after the grace period`);
+  } else {
+    spinner.succeed(drained.remaining ? 'All agents have shut down' : 'All agents finished within the grace period');
+  }
+}
+
+interface SelectedAgent extends AgentLookup {
+  idleMs?: number;
+}
+
+/**
+ * Agents to shut down, from explicit GUIDs or selectors
+ * Idle time needs the work history, which is only fetched for --idle-for.
+ */
+async function resolveShutdownAgents(
+  client: WeftAPIClient,
+  guids: string[],
+  selector: AgentSelector
+): Promise<SelectedAgent[]> {
+  const response = await client.listAgents();
+
+  if (!response.ok) {
+    throw new Error(response.error || `HTTP ${response.status}`);
+  }
+
+  const agents = response.data!.agents;
+
+  if (guids.length > 0) {
+    return guids.map((ref) => lookupAgent(agents, ref));
+  }
+
+  let lastActivity = new Map<string, number>();
+  if (selector.idleForMs !== undefined) {
+    const workResponse = await client.listWork();
+    if (!workResponse.ok) {
+      throw new Error(workResponse.error || `HTTP ${workResponse.status}`);
+    }
+    lastActivity = lastActivityByAgent(workResponse.data!.workItems);
+  }
+
+  return selectAgents(agents, selector, lastActivity).map((agent) => ({
+    guid: agent.guid,
+    agent,
+    idleMs: idleTimeMs(agent, lastActivity),
+  }));
+}
+
+function renderAgentPreview(entries: SelectedAgent[]): string {
+  return createTable(
+    ['GUID', 'Handle', 'Type', 'Status', 'Tasks', 'Idle'],
+    entries.map(({ guid, agent, idleMs }) => [
+      truncate(guid, 12),
+      agent?.handle || '-',
+      agent ? colorAgentType(agent.agentType) : '-',
+      agent ? colorStatus(agent.status) : chalk.gray('not registered'),
+      agent ? `${agent.currentTaskCount || 0}` : '-',
+      idleMs !== undefined ? formatDuration(idleMs) : '-',
+    ])
+  ).toString();
+}
@@ -5,9 +5,36 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import { loadConfig } from '../utils/config-file.js';
-import { createAPIClient } from '../api/client.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import type { Agent, SpinUpResult } from '../api/models.js';
 import { output, success, error, info, formatKeyValue } from '../utils/output.js';
 import { getGlobalOptions } from '../cli.js';
+import {
+  selectTargets,
+  ineligibilityReason,
+  SELECTION_STRATEGIES,
+  type SelectionStrategy,
+  type TargetChoice,
+} from '../utils/target-selection.js';
+import { mapConcurrent, withTimeout } from '../utils/concurrency.js';
+import { parseDuration } from '../utils/duration.js';
+import { waitForAgents, type AgentExpectation } from '../utils/wait-for-agent.js';
+import { fetchTarget } from '../utils/resolve-id.js';
+
+const HEALTH_CHECK_CONCURRENCY = 5;
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+
+interface SpinUpOutcome {
+  target: string;
+  reason?: string;
+  ok: boolean;
+  result?: SpinUpResult;
+  error?: string;
+  /** Agent that registered for this spin-up, with --wait */
+  agent?: Pick<Agent, 'guid' | 'handle' | 'hostname' | 'status'>;
+  /** Latest health test of the target when no agent registered in time */
+  diagnostics?: string;
+}
 
 export function spinUpCommand(): Command {
   const cmd = new Command('spin-up');
@@ -18,6 +45,10 @@ export function spinUpCommand(): Command {
     .option('--type <type>', 'Agent type filter (copilot-cli|claude-code)')
     .option('--capability <name>', 'Required capability')
     .option('--boundary <name>', 'Required boundary support')
+    .option('--strategy <strategy>', `How to pick among matching targets (${SELECTION_STRATEGIES.join('|')})`, 'lru')
+    .option('--count <n>', 'Spin up this many agents on distinct targets', '1')
+    .option('--wait', 'Wait for the new agent(s) to register and come online')
+    .option('--timeout <duration>', 'With --wait, give up after this long', '5m')
     .action(async (options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
@@ -26,6 +57,7 @@ export function spinUpCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         // Must provide either --target or filters
@@ -34,89 +66,124 @@ export function spinUpCommand(): Command {
           process.exit(1);
         }
 
+        if (!SELECTION_STRATEGIES.includes(options.strategy)) {
+          throw new Error(`--strategy must be one of ${SELECTION_STRATEGIES.join(', ')}`);
+        }
+        const count = parseInt(options.count, 10);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new Error('--count must be a positive integer');
+        }
+        if (options.target && count > 1) {
+          throw new Error('--count cannot be combined with --target');
+        }
+        const timeoutMs = options.wait ? parseDuration(options.timeout) : 0;
+
         if (!globalOpts.quiet) {
           spinner.start('Triggering agent spin-up...');
         }
 
         const client = createAPIClient(config);
-        let targetId: string;
+        let choices: TargetChoice[];
 
         if (options.target) {
           // Spin up specific target
-          targetId = options.target;
+          choices = [{ target: await fetchTarget(client, options.target), reason: 'requested with --target' }];
         } else {
-          // Query for target based on filters
-          const listResponse = await client.listTargets({
-            type: options.type,
-            capability: options.capability,
-          });
-
-          if (!listResponse.ok) {
-            throw new Error(listResponse.error || `HTTP ${listResponse.status}`);
+          // Query for targets based on filters and pick the best ones
+          if (!globalOpts.quiet) {
+            spinner.text = 'Selecting target...';
           }
-
-          const targets = listResponse.data?.targets || [];
-
-          if (targets.length === 0) {
-            if (!globalOpts.quiet && spinner.isSpinning) {
-              spinner.fail('No matching targets found');
-            }
-            error('No matching targets found', globalOpts);
-            process.exit(1);
+          choices = await chooseTargets(client, options, count);
+          if (spinner.isSpinning) {
+            spinner.stop();
+          }
+          for (const choice of choices) {
+            info(`Selected target: ${choice.target.name} (${choice.reason})`, globalOpts);
           }
+          if (!globalOpts.quiet) {
+            spinner.start(`Triggering ${choices.length} agent spin-up(s)...`);
+          }
+        }
 
-          // Use first available target
-          targetId = targets[0].id || targets[0].name;
-          info(`Selected target: ${targets[0].name}`, globalOpts);
+        // Agents already registered are not mistaken for the new ones
+        let knownGuids = new Set<string>();
+        if (options.wait) {
+          const agentsResponse = await client.listAgents();
+          if (!agentsResponse.ok) {
+            throw new Error(agentsResponse.error || `HTTP ${agentsResponse.status}`);
+          }
+          knownGuids = new Set(agentsResponse.data!.agents.map((agent) => agent.guid));
         }
 
-        // Trigger spin-up
-        const response = await client.spinUpTarget(targetId);
+        const outcomes = await mapConcurrent(choices, choices.length, (choice) => triggerSpinUp(client, choice));
+        let failed = outcomes.filter((outcome) => !outcome.ok);
 
-        if (!response.ok) {
-          throw new Error(response.error || `HTTP ${response.status}`);
+        if (!globalOpts.quiet) {
+          if (failed.length === 0) {
+            spinner.succeed(choices.length > 1 ? `${choices.length} agent spin-ups initiated` : 'Agent spin-up initiated');
+          } else {
+            spinner.fail(choices.length > 1 ? `${failed.length} of ${choices.length} spin-ups failed` : 'Spin-up failed');
+          }
         }
 
-        const result = response.data;
+        const started = outcomes.filter((outcome) => outcome.ok);
+        if (options.wait && started.length > 0) {
+          if (!globalOpts.quiet) {
+            spinner.start(`Waiting for ${started.length} agent(s) to come online...`);
+          }
 
-        // Handle both old format (success boolean) and new format (status string)
-        const isSuccess = result.success === true ||
-          result.status === 'in-progress' ||
-          result.status === 'completed';
+          await waitForSpunUpAgents(client, started, choices, {
+            knownGuids,
+            timeoutMs,
+            capability: options.capability,
+            type: options.type,
+          });
+          failed = outcomes.filter((outcome) => !outcome.ok);
 
-        if (!globalOpts.quiet) {
-          if (isSuccess) {
-            spinner.succeed('Agent spin-up initiated');
-          } else {
-            spinner.fail('Spin-up failed');
+          if (!globalOpts.quiet) {
+            const online = started.filter((outcome) => outcome.agent).length;
+            if (online === started.length) {
+              spinner.succeed(`${online} agent(s) online`);
+            } else {
+              spinner.fail(`${started.length - online} agent(s) did not come online within ${options.timeout}`);
+            }
           }
         }
 
         // Output results
         if (globalOpts.json) {
-          output(result, globalOpts);
+          if (count === 1 && outcomes[0]!.result) {
+            const { result, reason, agent, diagnostics } = outcomes[0]!;
+            output({ ...result, reason, agent, diagnostics }, globalOpts);
+          } else {
+            output({ spinUps: outcomes }, globalOpts);
+          }
         } else {
-          if (isSuccess) {
-            success('Agent spin-up triggered successfully!', globalOpts);
-            console.log();
-            console.log(
-              formatKeyValue({
-                'Operation ID': result.operationId || result.targetId,
-                'Target Name': result.targetName,
-                'Status': result.status || 'initiated',
-                'Timestamp': result.timestamp ? new Date(result.timestamp).toLocaleString() : new Date().toLocaleString(),
-              })
-            );
-
-            if (result.mechanismResult) {
-              console.log('\nMechanism Details:');
-              console.log(formatKeyValue(result.mechanismResult));
+          for (const outcome of outcomes) {
+            if (outcome.ok) {
+              printSpinUpResult(outcome.result!, globalOpts);
+              if (outcome.agent) {
+                console.log();
+                console.log(
+                  formatKeyValue({
+                    'Agent GUID': outcome.agent.guid,
+                    'Handle': outcome.agent.handle || '-',
+                    'Agent Status': outcome.agent.status,
+                  })
+                );
+              }
+            } else {
+              error(`Spin-up of ${outcome.target} failed: ${outcome.error}`, globalOpts);
+              if (outcome.diagnostics) {
+                console.log(`  ${outcome.diagnostics}`);
+              }
             }
-          } else {
-            error(`Spin-up failed: ${result.error || result.message || 'Unknown error'}`, globalOpts);
-            process.exit(1);
           }
         }
+
+        if (failed.length > 0) {
+          process.exit(1);
+        }
       } catch (err: any) {
         if (spinner.isSpinning) {
           spinner.fail('Failed to trigger spin-up');
@@ -128,3 +195,154 @@ export function spinUpCommand(): Command {
 
   return cmd;
 }
+
+/**
+ * Flags that pick the targets to spin up
+ */
+interface TargetChoiceOptions {
+  type?: string;
+  capability?: string;
+  boundary?: string;
+  strategy: SelectionStrategy;
+}
+
+/**
+ * List targets matching the filters and rank them with the chosen strategy
+ * The fastest strategy health-checks every eligible target first.
+ */
+async function chooseTargets(
+  client: WeftAPIClient,
+  options: TargetChoiceOptions,
+  count: number
+): Promise<TargetChoice[]> {
+  const listResponse = await client.listTargets({
+    type: options.type,
+    capability: options.capability,
+    classification: options.boundary,
+  });
+
+  if (!listResponse.ok) {
+    throw new Error(listResponse.error || `HTTP ${listResponse.status}`);
+  }
+
+  const targets = listResponse.data?.targets || [];
+  const strategy = options.strategy;
+  let latencies: Map<string, number> | undefined;
+
+  if (strategy === 'fastest') {
+    const eligible = targets.filter((target) => !ineligibilityReason(target, options.boundary));
+    latencies = new Map();
+    await mapConcurrent(eligible, HEALTH_CHECK_CONCURRENCY, async (target) => {
+      const started = Date.now();
+      const response = await withTimeout(
+        client.testTarget(target.id || target.name),
+        HEALTH_CHECK_TIMEOUT_MS,
+        'health check timed out'
+      ).catch(() => undefined);
+      if (response?.ok && response.data!.healthy) {
+        latencies!.set(target.name, response.data!.latencyMs ?? Date.now() - started);
+      }
+    });
+  }
+
+  const selection = selectTargets(targets, { strategy, count, boundary: options.boundary, latencies });
+
+  if (selection.selected.length < count) {
+    const skipped = selection.skipped.map((choice) => `${choice.target.name} (${choice.reason})`);
+    const found = targets.length === 0
+      ? 'No matching targets found'
+      : `Only ${selection.selected.length} of ${targets.length} matching target(s) can take a spin-up, ${count} needed`;
+    throw new Error(skipped.length > 0 ? `${found}; skipped: ${skipped.join(', ')}` : found);
+  }
+
+  return selection.selected;
+}
+
+/**
+ * Wait for an agent to register for each started spin-up
+ * Outcomes without an agent by the timeout are marked failed, with the
+ * target's latest health test as diagnostics.
+ */
+async function waitForSpunUpAgents(
+  client: WeftAPIClient,
+  started: SpinUpOutcome[],
+  choices: TargetChoice[],
+  options: { knownGuids: Set<string>; timeoutMs: number; capability?: string; type?: string }
+): Promise<void> {
+  const expectations: AgentExpectation[] = started.map((outcome) => {
+    const target = choices.find((choice) => choice.target.name === outcome.target)?.target;
+    return {
+      agentType: options.type || target?.agentType,
+      capabilities: options.capability ? [options.capability] : [],
+      hints: [outcome.target, outcome.result?.operationId].filter(Boolean) as string[],
+    };
+  });
+
+  const agents = await waitForAgents(client, expectations, {
+    knownGuids: options.knownGuids,
+    timeoutMs: options.timeoutMs,
+  });
+
+  await Promise.all(
+    started.map(async (outcome, index) => {
+      const agent = agents[index];
+      if (agent) {
+        outcome.agent = { guid: agent.guid, handle: agent.handle, hostname: agent.hostname, status: agent.status };
+        return;
+      }
+
+      outcome.ok = false;
+      outcome.error = 'agent did not come online before the timeout';
+      const health = await client.testTarget(outcome.target);
+      if (!health.ok) {
+        outcome.diagnostics = `Health test failed: ${health.error || `HTTP ${health.status}`}`;
+      } else if (health.data!.healthy) {
+        outcome.diagnostics = `Target is healthy${health.data!.latencyMs !== undefined ? ` (${health.data!.latencyMs}ms)` : ''}; check the agent's logs on the target`;
+      } else {
+        outcome.diagnostics = `Target is unhealthy: ${health.data!.error || 'no error reported'}`;
+      }
+    })
+  );
+}
+
+async function triggerSpinUp(client: WeftAPIClient, choice: TargetChoice): Promise<SpinUpOutcome> {
+  const { target, reason } = choice;
+  const response = await client.spinUpTarget(target.id || target.name);
+
+  if (!response.ok) {
+    return { target: target.name, reason, ok: false, error: response.error || `HTTP ${response.status}` };
+  }
+
+  const result = response.data!;
+
+  // Handle both old format (success boolean) and new format (status string)
+  const isSuccess = result.success === true ||
+    result.status === 'in-progress' ||
+    result.status === 'completed';
+
+  return {
+    target: target.name,
+    reason,
+    ok: isSuccess,
+    result,
+    error: isSuccess ? undefined : result.error || result.message || 'Unknown error',
+  };
+}
+
+function printSpinUpResult(result: SpinUpResult, globalOpts: { quiet?: boolean }): void {
+  success('Agent spin-up triggered successfully!', globalOpts);
+  console.log();
+  console.log(
+    formatKeyValue({
+      'Operation ID': result.operationId || result.targetId,
+      'Target Name': result.targetName,
+      'Status': result.status || 'initiated',
+      'Timestamp': result.timestamp ? new Date(result.timestamp).toLocaleString() : new Date().toLocaleString(),
+    })
+  );
+
+  if (result.mechanismResult) {
+    console.log('\nMechanism Details:');
+    console.log(formatKeyValue(result.mechanismResult));
+  }
+}
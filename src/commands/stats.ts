@@ -22,6 +22,7 @@ export function statsCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -35,7 +36,7 @@ export function statsCommand(): Command {
           throw new Error(response.error || `HTTP ${response.status}`);
         }
 
-        const stats = response.data;
+        const stats = response.data!;
 
         if (!globalOpts.quiet) {
           spinner.succeed('Statistics retrieved');
@@ -4,12 +4,33 @@
 
 import { Command } from 'commander';
 import ora from 'ora';
-import type { Priority } from '@mdlopresti/loom-shared';
+import chalk from 'chalk';
+import type { CLIConfiguration, Priority } from '@mdlopresti/loom-shared';
 import { loadConfig } from '../utils/config-file.js';
-import { createAPIClient } from '../api/client.js';
-import { output, success, error, info, formatKeyValue } from '../utils/output.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import { AGENT_TYPES, isAgentType, type WorkSubmission } from '../api/models.js';
+import {
+  output,
+  success,
+  error,
+  info,
+  warning,
+  formatKeyValue,
+  formatList,
+  formatProgressBar,
+  colorStatus,
+  createTable,
+  truncate,
+} from '../utils/output.js';
 import { promptWorkSubmission } from '../utils/prompts.js';
-import { getGlobalOptions } from '../cli.js';
+import { readDataFile } from '../utils/data-file.js';
+import { validateWorkManifest, type WorkManifestDefaults } from '../utils/manifest.js';
+import { buildContextData, parseKeyValuePairs } from '../utils/context-data.js';
+import { loadTemplate, renderTemplate } from '../utils/templates.js';
+import { submitAndWait } from '../utils/follow-work.js';
+import { COMMAND_ERROR_EXIT_CODE, WORK_OUTCOME_EXIT_CODES } from '../utils/work-status.js';
+import { parsePositiveDuration } from '../utils/duration.js';
+import { getGlobalOptions, type GlobalOptions } from '../cli.js';
 import { randomUUID } from 'crypto';
 
 export function submitCommand(): Command {
@@ -23,17 +44,72 @@ export function submitCommand(): Command {
     .option('--priority <n>', 'Priority level (1-10)', parseInt)
     .option('--agent-type <type>', 'Required agent type (copilot-cli|claude-code)')
     .option('--deadline <iso>', 'Deadline (ISO 8601 timestamp)')
+    .option('--ctx <key=value>', 'Context value for the agent (repeatable)', collect, [])
+    .option('--context-file <path>', 'JSON or YAML file of context values')
+    .option('--attach <file>', 'Inline a file into the context, e.g. logs or specs (repeatable)', collect, [])
+    .option('-t, --template <name>', 'Start from a saved work template (see: shuttle templates)')
+    .option('--var <key=value>', 'Template variable value (repeatable)', collect, [])
+    .option('--wait', 'Wait for the work item to finish, print its result and exit with its outcome')
+    .option('--timeout <duration>', 'With --wait, stop waiting after this long (e.g. 90s, 30m, 2h)')
     .option('--interactive', 'Interactive mode with prompts')
+    .option('-f, --file <path>', 'Submit every work item in a YAML/JSON/NDJSON manifest ("-" for stdin)')
+    .addHelpText(
+      'after',
+      `
+Exit codes with --wait:
+  ${WORK_OUTCOME_EXIT_CODES.completed}  the work item completed
+  ${WORK_OUTCOME_EXIT_CODES.failed}  the work item failed
+  ${WORK_OUTCOME_EXIT_CODES.cancelled}  the work item was cancelled
+  ${WORK_OUTCOME_EXIT_CODES.timeout}  --timeout expired before the work item finished
+  ${COMMAND_ERROR_EXIT_CODE}  the work could not be submitted or followed (invalid options, network or auth errors)`
+    )
     .action(async (description: string | undefined, options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
+      // With --wait, exit code 1 means the work item failed
+      const errorExitCode = options.wait ? COMMAND_ERROR_EXIT_CODE : 1;
 
       try {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
+        if (options.timeout && !options.wait) {
+          error('--timeout requires --wait', globalOpts);
+          process.exit(errorExitCode);
+        }
+        const timeoutMs = options.timeout ? parsePositiveDuration(options.timeout, '--timeout') : undefined;
+
+        if (options.file) {
+          if (options.wait) {
+            error('--wait cannot be combined with --file (use shuttle watch --task-id)', globalOpts);
+            process.exit(errorExitCode);
+          }
+          if (description || options.interactive || options.template || options.var.length > 0) {
+            error('--file cannot be combined with a description, --interactive, --template or --var', globalOpts);
+            process.exit(errorExitCode);
+          }
+          await submitManifest(options.file, options, config, globalOpts);
+          return;
+        }
+
+        // Template values fill in whatever the flags leave out
+        let templateContext: Record<string, unknown> | undefined;
+        if (options.template) {
+          const template = renderTemplate(loadTemplate(options.template), parseKeyValuePairs(options.var, 'variable'));
+          description = description || template.description;
+          options.boundary = options.boundary || template.boundary;
+          options.capability = options.capability || template.capability;
+          options.priority = options.priority || template.priority;
+          options.agentType = options.agentType || template.agentType;
+          templateContext = template.contextData;
+        } else if (options.var.length > 0) {
+          error('--var requires --template', globalOpts);
+          process.exit(errorExitCode);
+        }
+
         // Interactive mode or missing required fields
         const needsInteractive =
           options.interactive || !description || !options.boundary || !options.capability;
@@ -56,17 +132,17 @@ export function submitCommand(): Command {
           // Validate required fields
           if (!description) {
             error('Description is required (use --interactive for prompts)', globalOpts);
-            process.exit(1);
+            process.exit(errorExitCode);
           }
 
           if (!options.boundary) {
             error('Boundary is required (use --boundary or --interactive)', globalOpts);
-            process.exit(1);
+            process.exit(errorExitCode);
           }
 
           if (!options.capability) {
             error('Capability is required (use --capability or --interactive)', globalOpts);
-            process.exit(1);
+            process.exit(errorExitCode);
           }
 
           workDetails = {
@@ -80,38 +156,52 @@ export function submitCommand(): Command {
         // Validate boundary (user-defined, just needs to be non-empty)
         if (!workDetails.boundary || workDetails.boundary.trim().length === 0) {
           error('Boundary must be a non-empty string', globalOpts);
-          process.exit(1);
+          process.exit(errorExitCode);
         }
 
         // Validate agent type if provided
-        if (options.agentType) {
-          const validAgentTypes = ['copilot-cli', 'claude-code'];
-          if (!validAgentTypes.includes(options.agentType)) {
-            error(`Invalid agent type: ${options.agentType}`, globalOpts);
-            error(`Valid values: ${validAgentTypes.join(', ')}`, globalOpts);
-            process.exit(1);
-          }
+        if (options.agentType && !isAgentType(options.agentType)) {
+          error(`Invalid agent type: ${options.agentType}`, globalOpts);
+          error(`Valid values: ${AGENT_TYPES.join(', ')}`, globalOpts);
+          process.exit(errorExitCode);
         }
 
-        if (!globalOpts.quiet) {
-          spinner.start('Submitting work...');
-        }
+        const flagContext = await buildContextData({
+          pairs: options.ctx,
+          file: options.contextFile,
+          attach: options.attach,
+        });
+        const contextData = templateContext || flagContext ? { ...templateContext, ...flagContext } : undefined;
 
-        const client = createAPIClient(config);
-        const response = await client.submitWork({
+        const submission: WorkSubmission = {
           description: workDetails.description,
           boundary: workDetails.boundary,
           capability: workDetails.capability,
           priority: workDetails.priority,
+          agentType: options.agentType,
           taskId: randomUUID(),
           deadline: options.deadline,
-        });
+          contextData,
+        };
+
+        const client = createAPIClient(config);
+
+        if (options.wait) {
+          await submitAndReport(client, submission, timeoutMs, spinner, globalOpts);
+          return;
+        }
+
+        if (!globalOpts.quiet) {
+          spinner.start('Submitting work...');
+        }
+
+        const response = await client.submitWork(submission);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
         }
 
-        const result = response.data;
+        const result = response.data!;
 
         if (!globalOpts.quiet) {
           spinner.succeed('Work submitted successfully');
@@ -142,9 +232,177 @@ export function submitCommand(): Command {
           spinner.fail('Failed to submit work');
         }
         error(`Error: ${err.message}`, {});
-        process.exit(1);
+        process.exit(errorExitCode);
       }
     });
 
   return cmd;
 }
+
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Submit a work item, wait for it to finish and report its result
+ * Exits with the code for the work item's outcome.
+ */
+async function submitAndReport(
+  client: WeftAPIClient,
+  submission: WorkSubmission,
+  timeoutMs: number | undefined,
+  spinner: ReturnType<typeof ora>,
+  globalOpts: GlobalOptions
+): Promise<void> {
+  const interactive = !globalOpts.quiet && !globalOpts.json;
+  if (interactive) {
+    spinner.start('Submitting work...');
+  }
+
+  const { workItemId, workItem, outcome } = await submitAndWait(client, submission, {
+    timeoutMs,
+    onUpdate: (update) => {
+      const progressText = update.progress !== undefined ? ` ${formatProgressBar(update.progress)}` : '';
+      spinner.text = `Work ${truncate(update.id, 12)}: ${colorStatus(update.status)}${progressText}`;
+    },
+  });
+
+  if (globalOpts.json) {
+    output(workItem || { id: workItemId }, globalOpts);
+    process.exit(WORK_OUTCOME_EXIT_CODES[outcome]);
+  }
+
+  if (outcome === 'completed') {
+    if (interactive) spinner.succeed(`Work ${workItemId} completed`);
+    if (workItem?.result?.summary) {
+      console.log(workItem.result.summary);
+    }
+    if (workItem?.result?.artifacts?.length) {
+      console.log('\nArtifacts:');
+      console.log(formatList(workItem.result.artifacts));
+    }
+  } else if (outcome === 'failed') {
+    if (interactive) spinner.fail(`Work ${workItemId} failed`);
+    const code = workItem?.error?.code ? ` (${workItem.error.code})` : '';
+    error(`Error: ${workItem?.error?.message || 'No error details reported'}${code}`, globalOpts);
+  } else if (outcome === 'cancelled') {
+    if (interactive) spinner.warn(`Work ${workItemId} was cancelled`);
+  } else {
+    if (interactive) spinner.warn(`Timed out while work ${workItemId} was ${workItem?.status || 'unknown'}`);
+    info(`Keep waiting with: shuttle watch ${workItemId}`, globalOpts);
+  }
+
+  process.exit(WORK_OUTCOME_EXIT_CODES[outcome]);
+}
+
+/**
+ * Flags that apply to manifest submissions
+ */
+interface ManifestSubmitOptions extends Omit<WorkManifestDefaults, 'contextData'> {
+  ctx: string[];
+  contextFile?: string;
+  attach: string[];
+}
+
+/**
+ * Submit every item in a manifest file
+ * All items are validated before anything is sent; submission failures are
+ * reported per item and make the command exit non-zero.
+ */
+async function submitManifest(
+  file: string,
+  options: ManifestSubmitOptions,
+  config: CLIConfiguration,
+  globalOpts: GlobalOptions
+): Promise<void> {
+  const document = await readDataFile(file);
+  const contextData = await buildContextData({
+    pairs: options.ctx,
+    file: options.contextFile,
+    attach: options.attach,
+  });
+
+  // Command-line flags act as defaults for items that omit them
+  const { items, errors } = validateWorkManifest(document, {
+    boundary: options.boundary || config.defaultBoundary,
+    capability: options.capability,
+    priority: options.priority || config.defaultPriority,
+    agentType: options.agentType,
+    deadline: options.deadline,
+    contextData,
+  });
+
+  if (errors.length > 0) {
+    error(`Manifest validation failed (${errors.length} problem(s)):`, globalOpts);
+    errors.forEach((message) => error(`  - ${message}`, globalOpts));
+    process.exit(1);
+  }
+
+  const spinner = ora();
+  const client = createAPIClient(config);
+  const results: {
+    index: number;
+    description: string;
+    taskId: string;
+    ok: boolean;
+    workItemId?: string;
+    error?: string;
+  }[] = [];
+
+  for (const [index, item] of items.entries()) {
+    if (!globalOpts.quiet && !globalOpts.json) {
+      spinner.start(`Submitting work item ${index + 1}/${items.length}...`);
+    }
+
+    const taskId = item.taskId || randomUUID();
+    const response = await client.submitWork({ ...item, taskId });
+
+    results.push({
+      index: index + 1,
+      description: item.description,
+      taskId,
+      ok: response.ok,
+      workItemId: response.ok ? response.data?.workItemId || response.data?.id : undefined,
+      error: response.ok ? undefined : response.error || `HTTP ${response.status}`,
+    });
+  }
+
+  const failed = results.filter((r) => !r.ok).length;
+  const submitted = results.length - failed;
+
+  if (spinner.isSpinning) {
+    if (failed === 0) {
+      spinner.succeed(`Submitted ${submitted} work item(s)`);
+    } else {
+      spinner.fail(`Submitted ${submitted} of ${results.length} work item(s)`);
+    }
+  }
+
+  if (globalOpts.json) {
+    output({ submitted, failed, results }, globalOpts);
+  } else {
+    const table = createTable(
+      ['#', 'Description', 'Status', 'Work Item ID / Error'],
+      results.map((r) => [
+        String(r.index),
+        truncate(r.description, 40),
+        r.ok ? chalk.green('submitted') : chalk.red('failed'),
+        r.ok ? r.workItemId || 'N/A' : r.error || 'Unknown error',
+      ])
+    );
+    console.log(table.toString());
+
+    if (failed > 0) {
+      warning(`${failed} of ${results.length} work item(s) failed to submit`, globalOpts);
+    } else {
+      success(`All ${submitted} work item(s) submitted`, globalOpts);
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
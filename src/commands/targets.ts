@@ -4,9 +4,11 @@
 
 import { Command } from 'commander';
 import ora from 'ora';
+import chalk from 'chalk';
 import type { SpinUpMechanism, AgentType, Boundary } from '@mdlopresti/loom-shared';
 import { loadConfig } from '../utils/config-file.js';
-import { createAPIClient } from '../api/client.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import type { Target } from '../api/models.js';
 import {
   output,
   success,
@@ -18,7 +20,23 @@ import {
   formatKeyValue,
 } from '../utils/output.js';
 import { getGlobalOptions } from '../cli.js';
-import { confirm } from '../utils/prompts.js';
+import { confirm, promptTargetRegistration, validatePort, type TargetRegistration } from '../utils/prompts.js';
+import { readDataFile } from '../utils/data-file.js';
+import {
+  SPIN_UP_MECHANISMS,
+  validateTargetSpecs,
+  planTargetChanges,
+  targetInputFromSpec,
+  targetUpdatesFromPlan,
+  specFromTarget,
+  isTargetEnabled,
+  type TargetPlanEntry,
+} from '../utils/target-spec.js';
+import { formatExport, redactSecrets, resolveExportFormat, EXPORT_FORMATS } from '../utils/export.js';
+import { mapConcurrent, withTimeout } from '../utils/concurrency.js';
+import { fetchTarget } from '../utils/resolve-id.js';
+import { parseDuration } from '../utils/duration.js';
+import { writeFileSync } from 'fs';
 
 export function targetsCommand(): Command {
   const cmd = new Command('targets');
@@ -27,6 +45,8 @@ export function targetsCommand(): Command {
     .description('Manage spin-up targets')
     .addCommand(targetsListCommand())
     .addCommand(targetsAddCommand())
+    .addCommand(targetsApplyCommand())
+    .addCommand(targetsExportCommand())
     .addCommand(targetsShowCommand())
     .addCommand(targetsUpdateCommand())
     .addCommand(targetsRemoveCommand())
@@ -55,6 +75,7 @@ function targetsListCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -88,14 +109,14 @@ function targetsListCommand(): Command {
 
           const table = createTable(
             ['Name', 'Type', 'Mechanism', 'Status', 'Health', 'Capabilities', 'Uses'],
-            targets.map((t: any) => [
+            targets.map((t) => [
               t.name,
               colorAgentType(t.agentType),
               t.mechanism,
               colorStatus(t.status),
               colorStatus(t.healthStatus || 'unknown'),
               truncate(t.capabilities?.join(', ') || '', 25),
-              t.useCount || 0,
+              String(t.useCount || 0),
             ])
           );
 
@@ -117,19 +138,28 @@ function targetsAddCommand(): Command {
   const cmd = new Command('add');
 
   cmd
-    .description('Add a new spin-up target')
-    .requiredOption('--name <name>', 'Target name (unique identifier)')
-    .requiredOption('--type <type>', 'Agent type (claude-code|copilot-cli)')
-    .requiredOption('--mechanism <mech>', 'Spin-up mechanism (ssh|github-actions|local|webhook|kubernetes)')
+    .description('Add a new spin-up target (prompts for anything required that is missing)')
+    .option('--name <name>', 'Target name (unique identifier)')
+    .option('--type <type>', 'Agent type (claude-code|copilot-cli)')
+    .option('--mechanism <mech>', 'Spin-up mechanism (ssh|github-actions|local|webhook|kubernetes)')
     .option('--host <host>', 'SSH host (for ssh mechanism)')
     .option('--user <user>', 'SSH user (for ssh mechanism)')
+    .option('--port <port>', 'SSH port (for ssh mechanism)')
     .option('--command <cmd>', 'Command to run (for ssh/local mechanisms)')
+    .option('--args <args>', 'Space-separated command arguments (for local mechanism)')
+    .option('--working-directory <dir>', 'Working directory (for ssh/local mechanisms)')
     .option('--repo <repo>', 'GitHub repo (for github-actions mechanism)')
     .option('--workflow <workflow>', 'Workflow file (for github-actions mechanism)')
+    .option('--ref <ref>', 'Git ref to run the workflow on (for github-actions mechanism)')
     .option('--url <url>', 'Webhook URL (for webhook mechanism)')
+    .option('--method <method>', 'HTTP method (for webhook mechanism)')
+    .option('--namespace <ns>', 'Namespace (for kubernetes mechanism)')
+    .option('--image <image>', 'Container image (for kubernetes mechanism)')
+    .option('--job-name-prefix <prefix>', 'Job name prefix (for kubernetes mechanism)')
     .option('--capabilities <caps>', 'Comma-separated capabilities')
     .option('--boundaries <names>', 'Comma-separated allowed boundaries')
     .option('--description <desc>', 'Target description')
+    .option('--interactive', 'Interactive mode with prompts')
     .action(async (options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
@@ -138,56 +168,56 @@ function targetsAddCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
-        // Build mechanism config based on type
-        let mechanismConfig: Record<string, any> = {
-          mechanism: options.mechanism, // Required to match top-level mechanism
+        const fromFlags: Partial<TargetRegistration> = {
+          name: options.name,
+          description: options.description,
+          agentType: options.type as AgentType | undefined,
+          capabilities: splitList(options.capabilities),
+          boundaries: splitList(options.boundaries) as Boundary[] | undefined,
+          mechanism: options.mechanism as SpinUpMechanism | undefined,
+          config: mechanismConfigFromOptions(options),
         };
-        switch (options.mechanism as SpinUpMechanism) {
-          case 'ssh':
-            if (!options.host) {
-              error('--host is required for ssh mechanism', globalOpts);
-              process.exit(1);
-            }
-            mechanismConfig = {
-              ...mechanismConfig,
-              host: options.host,
-              user: options.user || 'root',
-              command: options.command,
-            };
-            break;
-          case 'github-actions':
-            if (!options.repo || !options.workflow) {
-              error('--repo and --workflow are required for github-actions mechanism', globalOpts);
-              process.exit(1);
-            }
-            mechanismConfig = {
-              ...mechanismConfig,
-              repo: options.repo,
-              workflowFile: options.workflow,
-            };
-            break;
-          case 'local':
-            if (!options.command) {
-              error('--command is required for local mechanism', globalOpts);
-              process.exit(1);
-            }
-            mechanismConfig = {
-              ...mechanismConfig,
-              command: options.command,
-            };
-            break;
-          case 'webhook':
-            if (!options.url) {
-              error('--url is required for webhook mechanism', globalOpts);
-              process.exit(1);
-            }
-            mechanismConfig = {
-              ...mechanismConfig,
-              url: options.url,
-            };
-            break;
+
+        if (fromFlags.mechanism && !SPIN_UP_MECHANISMS.includes(fromFlags.mechanism)) {
+          error(`Invalid mechanism: ${fromFlags.mechanism}`, globalOpts);
+          error(`Valid values: ${SPIN_UP_MECHANISMS.join(', ')}`, globalOpts);
+          process.exit(1);
+        }
+
+        const portValid = options.port === undefined || validatePort(Number(options.port));
+        if (portValid !== true) {
+          error(portValid, globalOpts);
+          process.exit(1);
+        }
+
+        // Fall into the wizard for anything required that was not given as a flag
+        const missing = missingTargetOptions(fromFlags);
+        let registration: TargetRegistration;
+
+        if (options.interactive || missing.length > 0) {
+          if (globalOpts.json || !process.stdin.isTTY) {
+            error(
+              missing.length > 0
+                ? `Missing required options: ${missing.join(', ')}`
+                : 'Interactive mode needs a terminal',
+              globalOpts
+            );
+            process.exit(1);
+          }
+          registration = await promptTargetRegistration(fromFlags);
+        } else {
+          registration = {
+            ...fromFlags,
+            capabilities: fromFlags.capabilities || [],
+            config: {
+              ...MECHANISM_DEFAULTS[fromFlags.mechanism!],
+              ...fromFlags.config,
+              mechanism: fromFlags.mechanism,
+            },
+          } as TargetRegistration;
         }
 
         if (!globalOpts.quiet) {
@@ -195,21 +225,13 @@ function targetsAddCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.createTarget({
-          name: options.name,
-          agentType: options.type as AgentType,
-          capabilities: options.capabilities?.split(',').map((s: string) => s.trim()) || [],
-          mechanism: options.mechanism as SpinUpMechanism,
-          config: mechanismConfig,
-          boundaries: options.boundaries?.split(',').map((s: string) => s.trim()) as Boundary[] || undefined,
-          description: options.description,
-        });
+        const response = await client.createTarget(registration);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
         }
 
-        const target = response.data;
+        const target = response.data!;
 
         if (!globalOpts.quiet) {
           spinner.succeed('Target created');
@@ -241,12 +263,377 @@ function targetsAddCommand(): Command {
   return cmd;
 }
 
+/**
+ * Mechanism settings required for each mechanism, with the flag that sets them
+ */
+const REQUIRED_MECHANISM_OPTIONS: Record<SpinUpMechanism, [key: string, flag: string][]> = {
+  'ssh': [['host', '--host']],
+  'local': [['command', '--command']],
+  'github-actions': [['repo', '--repo'], ['workflowFile', '--workflow']],
+  'webhook': [['url', '--url']],
+  'kubernetes': [['image', '--image']],
+};
+
+/**
+ * Defaults for optional mechanism settings when registering from flags alone
+ */
+const MECHANISM_DEFAULTS: Record<SpinUpMechanism, Record<string, unknown>> = {
+  'ssh': { user: 'root' },
+  'local': {},
+  'github-actions': {},
+  'webhook': { method: 'POST' },
+  'kubernetes': { namespace: 'default', jobNamePrefix: 'agent' },
+};
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value?.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Collect the mechanism settings given as flags, leaving out those not set
+ */
+function mechanismConfigFromOptions(options: Record<string, any>): Record<string, unknown> {
+  const values: Record<string, unknown> = {
+    host: options.host,
+    user: options.user,
+    port: options.port !== undefined ? Number(options.port) : undefined,
+    command: options.command,
+    args: options.args?.split(' ').filter((arg: string) => arg.length > 0),
+    workingDirectory: options.workingDirectory,
+    repo: options.repo,
+    workflowFile: options.workflow,
+    ref: options.ref,
+    url: options.url,
+    method: options.method?.toUpperCase(),
+    namespace: options.namespace,
+    image: options.image,
+    jobNamePrefix: options.jobNamePrefix,
+  };
+
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Flags still needed to register a target without prompting
+ */
+function missingTargetOptions(registration: Partial<TargetRegistration>): string[] {
+  const missing: string[] = [];
+  if (!registration.name) missing.push('--name');
+  if (!registration.agentType) missing.push('--type');
+  if (!registration.mechanism) {
+    missing.push('--mechanism');
+    return missing;
+  }
+
+  for (const [key, flag] of REQUIRED_MECHANISM_OPTIONS[registration.mechanism]) {
+    if (registration.config?.[key] === undefined) missing.push(flag);
+  }
+  return missing;
+}
+
+function targetsApplyCommand(): Command {
+  const cmd = new Command('apply');
+
+  cmd
+    .description('Create, update and (with --prune) delete targets to match a target file')
+    .requiredOption('-f, --file <path>', 'YAML/JSON file listing the targets ("-" for stdin)')
+    .option('--prune', 'Delete targets that are not listed in the file')
+    .option('--dry-run', 'Show the plan without applying it')
+    .option('-y, --yes', 'Apply without confirmation')
+    .action(async (options, command) => {
+      const globalOpts = getGlobalOptions(command);
+      const spinner = ora();
+
+      try {
+        const config = loadConfig({
+          configPath: globalOpts.config,
+          projectOverride: globalOpts.project,
+          context: globalOpts.context,
+        });
+
+        const { specs, errors } = validateTargetSpecs(await readDataFile(options.file));
+        if (errors.length > 0) {
+          error(`Invalid target file ${options.file}:`, globalOpts);
+          errors.forEach((message) => error(`  - ${message}`, globalOpts));
+          process.exit(1);
+        }
+
+        if (!globalOpts.quiet) {
+          spinner.start('Fetching targets...');
+        }
+
+        const client = createAPIClient(config);
+        const targets = await fetchTargetsForSpecs(client, specs.map((spec) => spec.name));
+        const plan = planTargetChanges(specs, targets, { prune: options.prune });
+        const pending = plan.filter((entry) => entry.action !== 'no-op');
+
+        if (spinner.isSpinning) {
+          spinner.stop();
+        }
+
+        if (!globalOpts.json && !globalOpts.quiet) {
+          console.log(renderTargetPlan(plan));
+        }
+
+        if (pending.length === 0 || options.dryRun) {
+          if (globalOpts.json) {
+            output({ plan: plan.map(planEntryJson), applied: false }, globalOpts);
+          } else if (pending.length === 0) {
+            success('Targets match the file; nothing to do', globalOpts);
+          }
+          return;
+        }
+
+        if (!options.yes && !globalOpts.json) {
+          const confirmed = await confirm(`Apply ${pending.length} change(s)?`);
+          if (!confirmed) {
+            console.log('Cancelled.');
+            return;
+          }
+        }
+
+        const results: { name: string; action: string; ok: boolean; error?: string }[] = [];
+        for (const entry of pending) {
+          if (!globalOpts.quiet && !globalOpts.json) {
+            spinner.start(`${entry.action} ${entry.name}...`);
+          }
+
+          const failure = await applyTargetPlanEntry(client, entry);
+          results.push({ name: entry.name, action: entry.action, ok: !failure, error: failure });
+
+          if (spinner.isSpinning) {
+            if (failure) {
+              spinner.fail(`${entry.action} ${entry.name}: ${failure}`);
+            } else {
+              spinner.succeed(`${entry.action} ${entry.name}`);
+            }
+          }
+        }
+
+        const failed = results.filter((result) => !result.ok);
+        if (globalOpts.json) {
+          output({ plan: plan.map(planEntryJson), applied: true, results }, globalOpts);
+        } else if (failed.length === 0) {
+          success(`Applied ${results.length} change(s)`, globalOpts);
+        } else {
+          error(`${failed.length} of ${results.length} change(s) failed`, globalOpts);
+        }
+
+        if (failed.length > 0) {
+          process.exit(1);
+        }
+      } catch (err: any) {
+        if (spinner.isSpinning) {
+          spinner.fail('Failed to apply targets');
+        }
+        error(`Error: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * List targets, disabled ones included, looking up listed names the listings do not include
+ * The default listing may leave out disabled targets, which --prune must still see.
+ */
+async function fetchTargetsForSpecs(client: WeftAPIClient, names: string[]): Promise<Target[]> {
+  const responses = await Promise.all([client.listTargets(), client.listTargets({ status: 'disabled' })]);
+
+  const targets: Target[] = [];
+  const known = new Set<string>();
+  for (const response of responses) {
+    if (!response.ok) {
+      throw new Error(response.error || `HTTP ${response.status}`);
+    }
+    for (const target of response.data?.targets || []) {
+      if (!known.has(target.name)) {
+        known.add(target.name);
+        targets.push(target);
+      }
+    }
+  }
+
+  for (const name of names.filter((name) => !known.has(name))) {
+    const lookup = await client.getTarget(name);
+    if (lookup.ok && lookup.data) {
+      targets.push(lookup.data);
+    } else if (lookup.status !== 404) {
+      throw new Error(`Failed to look up target "${name}": ${lookup.error || `HTTP ${lookup.status}`}`);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Apply one plan entry, returning an error message if it failed
+ */
+async function applyTargetPlanEntry(client: WeftAPIClient, entry: TargetPlanEntry): Promise<string | undefined> {
+  const check = (response: { ok: boolean; status: number; error?: string }) => {
+    if (!response.ok) throw new Error(response.error || `HTTP ${response.status}`);
+  };
+
+  try {
+    if (entry.action === 'delete') {
+      check(await client.deleteTarget(entry.name));
+      return undefined;
+    }
+
+    const spec = entry.spec!;
+    if (entry.action === 'create') {
+      check(await client.createTarget(targetInputFromSpec(spec)));
+      if (spec.enabled === false) {
+        check(await client.disableTarget(spec.name));
+      }
+      return undefined;
+    }
+
+    const updates = targetUpdatesFromPlan(entry);
+    if (Object.keys(updates).length > 0) {
+      check(await client.updateTarget(entry.name, updates));
+    }
+    if (entry.changes.some((change) => change.field === 'enabled')) {
+      check(await (spec.enabled ? client.enableTarget(entry.name) : client.disableTarget(entry.name)));
+    }
+    return undefined;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+function formatPlanValue(value: unknown): string {
+  return value === undefined ? '(unset)' : JSON.stringify(value);
+}
+
+/**
+ * Render a plan as a terraform-style diff
+ */
+function renderTargetPlan(plan: TargetPlanEntry[]): string {
+  const lines: string[] = [];
+  const count = (action: string) => plan.filter((entry) => entry.action === action).length;
+
+  for (const entry of plan) {
+    switch (entry.action) {
+      case 'create':
+        lines.push(chalk.green(`  + ${entry.name}`) + chalk.gray(` (${entry.spec!.agentType} via ${entry.spec!.mechanism})`));
+        break;
+      case 'update':
+        lines.push(chalk.yellow(`  ~ ${entry.name}`));
+        for (const change of entry.changes) {
+          lines.push(`      ${change.field}: ${chalk.red(formatPlanValue(change.before))} → ${chalk.green(formatPlanValue(change.after))}`);
+        }
+        break;
+      case 'delete':
+        lines.push(chalk.red(`  - ${entry.name}`));
+        break;
+      case 'no-op':
+        lines.push(chalk.gray(`    ${entry.name} (unchanged)`));
+        break;
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    `Plan: ${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete, ${count('no-op')} unchanged`
+  );
+  return lines.join('\n');
+}
+
+function planEntryJson(entry: TargetPlanEntry) {
+  return { action: entry.action, name: entry.name, changes: entry.changes };
+}
+
+const TARGET_EXPORT_COLUMNS = [
+  'name',
+  'agentType',
+  'mechanism',
+  'status',
+  'healthStatus',
+  'capabilities',
+  'boundaries',
+  'useCount',
+  'lastUsedAt',
+];
+
+function targetsExportCommand(): Command {
+  const cmd = new Command('export');
+
+  cmd
+    .description('Export targets (by default as a target file accepted by "targets apply")')
+    .option('--format <format>', `Output format (${EXPORT_FORMATS.join('|')}, default: from --output, else yaml)`)
+    .option('-o, --output <path>', 'Write to a file instead of stdout')
+    .option('--columns <paths>', 'Comma-separated fields to export, e.g. name,status,config.host')
+    .option('--type <type>', 'Filter by agent type')
+    .option('--status <status>', 'Filter by status')
+    .option('--capability <cap>', 'Filter by capability')
+    .option('--show-secrets', 'Do not redact secrets in mechanism config')
+    .action(async (options, command) => {
+      const globalOpts = getGlobalOptions(command);
+
+      try {
+        const config = loadConfig({
+          configPath: globalOpts.config,
+          projectOverride: globalOpts.project,
+          context: globalOpts.context,
+        });
+
+        const format = resolveExportFormat(
+          options.format || (globalOpts.json ? 'json' : undefined),
+          options.output,
+          'yaml'
+        );
+
+        const client = createAPIClient(config);
+        const response = await client.listTargets({
+          type: options.type,
+          status: options.status,
+          capability: options.capability,
+        });
+
+        if (!response.ok) {
+          throw new Error(response.error || `HTTP ${response.status}`);
+        }
+
+        const targets = response.data?.targets || [];
+        const columns: string[] | undefined =
+          options.columns?.split(',').map((column: string) => column.trim()) ||
+          (format === 'csv' ? TARGET_EXPORT_COLUMNS : undefined);
+
+        // Without explicit columns, export target specs so the file can be applied again
+        let records: Record<string, unknown>[] = columns
+          ? (targets as unknown as Record<string, unknown>[])
+          : targets.map((target) => specFromTarget(target) as unknown as Record<string, unknown>);
+        if (!options.showSecrets) {
+          records = redactSecrets(records);
+        }
+
+        const content = formatExport(records, format, { key: 'targets', columns });
+
+        if (options.output) {
+          writeFileSync(options.output, content, 'utf-8');
+          if (!globalOpts.quiet) {
+            console.error(`Exported ${targets.length} target(s) to ${options.output}`);
+          }
+        } else {
+          process.stdout.write(content);
+        }
+      } catch (err: any) {
+        error(`Error: ${err.message}`, {});
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
 function targetsShowCommand(): Command {
   const cmd = new Command('show');
 
   cmd
     .description('Show target details')
-    .argument('<target>', 'Target name or ID')
+    .argument('<target>', 'Target name, ID or unique prefix')
     .action(async (target: string, _options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
@@ -255,6 +642,7 @@ function targetsShowCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -262,16 +650,17 @@ function targetsShowCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.getTarget(target);
+        const resolved = await fetchTarget(client, target);
+        const response = await client.getTarget(resolved.id);
 
         if (!response.ok) {
           if (response.status === 404) {
-            throw new Error(`Target not found: ${target}`);
+            throw new Error(`Target not found: ${resolved.name}`);
           }
           throw new Error(response.error || `HTTP ${response.status}`);
         }
 
-        const result = response.data;
+        const result = response.data!;
 
         if (!globalOpts.quiet) {
           spinner.succeed('Target found');
@@ -320,7 +709,7 @@ function targetsUpdateCommand(): Command {
 
   cmd
     .description('Update a target')
-    .argument('<target>', 'Target name or ID')
+    .argument('<target>', 'Target name, ID or unique prefix')
     .option('--capabilities <caps>', 'New comma-separated capabilities')
     .option('--boundaries <names>', 'New comma-separated boundaries')
     .option('--description <desc>', 'New description')
@@ -332,6 +721,7 @@ function targetsUpdateCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         const updates: Record<string, any> = {};
@@ -355,7 +745,8 @@ function targetsUpdateCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.updateTarget(target, updates);
+        const resolved = await fetchTarget(client, target);
+        const response = await client.updateTarget(resolved.id, updates);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
@@ -368,7 +759,7 @@ function targetsUpdateCommand(): Command {
         if (globalOpts.json) {
           output(response.data, globalOpts);
         } else {
-          success(`Target "${target}" updated`, globalOpts);
+          success(`Target "${resolved.name}" updated`, globalOpts);
         }
       } catch (err: any) {
         if (spinner.isSpinning) {
@@ -388,7 +779,7 @@ function targetsRemoveCommand(): Command {
   cmd
     .description('Remove a target')
     .alias('rm')
-    .argument('<target>', 'Target name or ID')
+    .argument('<target>', 'Target name, ID or unique prefix')
     .option('-y, --yes', 'Skip confirmation')
     .action(async (target: string, options, command) => {
       const globalOpts = getGlobalOptions(command);
@@ -398,10 +789,14 @@ function targetsRemoveCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
+        const client = createAPIClient(config);
+        const resolved = await fetchTarget(client, target);
+
         if (!options.yes && !globalOpts.json) {
-          const confirmed = await confirm(`Remove target "${target}"?`);
+          const confirmed = await confirm(`Remove target "${resolved.name}"?`);
           if (!confirmed) {
             console.log('Cancelled.');
             return;
@@ -412,8 +807,7 @@ function targetsRemoveCommand(): Command {
           spinner.start('Removing target...');
         }
 
-        const client = createAPIClient(config);
-        const response = await client.deleteTarget(target);
+        const response = await client.deleteTarget(resolved.id);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
@@ -423,7 +817,7 @@ function targetsRemoveCommand(): Command {
           spinner.succeed('Target removed');
         }
 
-        success(`Target "${target}" removed`, globalOpts);
+        success(`Target "${resolved.name}" removed`, globalOpts);
       } catch (err: any) {
         if (spinner.isSpinning) {
           spinner.fail('Failed to remove target');
@@ -441,15 +835,36 @@ function targetsTestCommand(): Command {
 
   cmd
     .description('Test target health/connectivity')
-    .argument('<target>', 'Target name or ID')
-    .action(async (target: string, _options, command) => {
+    .argument('[target]', 'Target name, ID or unique prefix')
+    .option('--all', 'Test every enabled target')
+    .option('--include-disabled', 'With --all, also test disabled targets')
+    .option('--concurrency <n>', 'With --all, number of targets tested at once', '5')
+    .option('--timeout <duration>', 'With --all, give up on a target after this long', '30s')
+    .option('--disable-unhealthy', 'With --all, disable targets that fail the check')
+    .action(async (target: string | undefined, options, command) => {
       const globalOpts = getGlobalOptions(command);
+
+      if (options.all) {
+        if (target) {
+          error('Pass either a target or --all, not both', globalOpts);
+          process.exit(1);
+        }
+        await sweepTargetHealth(options, command);
+        return;
+      }
+
+      if (!target) {
+        error('Specify a target or use --all', globalOpts);
+        process.exit(1);
+      }
+
       const spinner = ora();
 
       try {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -457,13 +872,14 @@ function targetsTestCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.testTarget(target);
+        const resolved = await fetchTarget(client, target);
+        const response = await client.testTarget(resolved.id);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
         }
 
-        const result = response.data;
+        const result = response.data!;
 
         if (!globalOpts.quiet) {
           if (result.healthy) {
@@ -478,7 +894,7 @@ function targetsTestCommand(): Command {
         } else {
           console.log(
             formatKeyValue({
-              'Target': target,
+              'Target': resolved.name,
               'Healthy': result.healthy ? 'Yes' : 'No',
               'Latency': result.latencyMs ? `${result.latencyMs}ms` : 'N/A',
               'Error': result.error || '(none)',
@@ -497,12 +913,141 @@ function targetsTestCommand(): Command {
   return cmd;
 }
 
+interface TargetHealthResult {
+  target: string;
+  healthy: boolean;
+  latencyMs?: number;
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Flags of `targets test --all`
+ */
+interface HealthSweepOptions {
+  includeDisabled?: boolean;
+  concurrency: string;
+  timeout: string;
+  disableUnhealthy?: boolean;
+}
+
+/**
+ * Test every target concurrently, optionally disabling the unhealthy ones
+ * Exits non-zero if any target is unhealthy.
+ */
+async function sweepTargetHealth(options: HealthSweepOptions, command: Command): Promise<void> {
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    const concurrency = parseInt(options.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('--concurrency must be a positive integer');
+    }
+    const timeoutMs = parseDuration(options.timeout);
+
+    if (!globalOpts.quiet) {
+      spinner.start('Fetching targets...');
+    }
+
+    const client = createAPIClient(config);
+    const listResponse = await client.listTargets();
+
+    if (!listResponse.ok) {
+      throw new Error(listResponse.error || `HTTP ${listResponse.status}`);
+    }
+
+    const targets = (listResponse.data?.targets || []).filter(
+      (target) => options.includeDisabled || isTargetEnabled(target)
+    );
+
+    let done = 0;
+    if (!globalOpts.quiet) {
+      spinner.text = `Testing ${targets.length} target(s)...`;
+    }
+
+    const results = await mapConcurrent(targets, concurrency, async (target): Promise<TargetHealthResult> => {
+      let result: TargetHealthResult;
+      try {
+        const response = await withTimeout(
+          client.testTarget(target.id || target.name),
+          timeoutMs,
+          `Timed out after ${options.timeout}`
+        );
+        result = response.ok
+          ? { target: target.name, ...response.data! }
+          : { target: target.name, healthy: false, error: response.error || `HTTP ${response.status}` };
+      } catch (err: any) {
+        result = { target: target.name, healthy: false, error: err.message };
+      }
+
+      if (!result.healthy && options.disableUnhealthy && isTargetEnabled(target)) {
+        const disableResponse = await client.disableTarget(target.id || target.name);
+        result.disabled = disableResponse.ok;
+        if (!disableResponse.ok) {
+          result.error = `${result.error || 'unhealthy'}; disable failed: ${disableResponse.error || `HTTP ${disableResponse.status}`}`;
+        }
+      }
+
+      done++;
+      if (!globalOpts.quiet) {
+        spinner.text = `Testing targets... ${done}/${targets.length}`;
+      }
+      return result;
+    });
+
+    const unhealthy = results.filter((result) => !result.healthy);
+
+    if (!globalOpts.quiet) {
+      if (unhealthy.length === 0) {
+        spinner.succeed(`All ${results.length} target(s) healthy`);
+      } else {
+        spinner.fail(`${unhealthy.length} of ${results.length} target(s) unhealthy`);
+      }
+    }
+
+    if (globalOpts.json) {
+      output({ results, healthy: results.length - unhealthy.length, unhealthy: unhealthy.length }, globalOpts);
+    } else if (results.length === 0) {
+      console.log('No targets found');
+    } else {
+      const table = createTable(
+        ['Target', 'Healthy', 'Latency', 'Error'],
+        results.map((result) => [
+          result.target,
+          result.healthy ? chalk.green('yes') : chalk.red('no') + (result.disabled ? chalk.yellow(' (disabled)') : ''),
+          result.latencyMs !== undefined ? `${result.latencyMs}ms` : '-',
+          truncate(result.error || '', 50),
+        ])
+      );
+
+      console.log(table.toString());
+    }
+
+    if (unhealthy.length > 0) {
+      process.exit(1);
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to test targets');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
 function targetsEnableCommand(): Command {
   const cmd = new Command('enable');
 
   cmd
     .description('Enable a disabled target')
-    .argument('<target>', 'Target name or ID')
+    .argument('<target>', 'Target name, ID or unique prefix')
     .action(async (target: string, _options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
@@ -511,6 +1056,7 @@ function targetsEnableCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -518,7 +1064,8 @@ function targetsEnableCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.enableTarget(target);
+        const resolved = await fetchTarget(client, target);
+        const response = await client.enableTarget(resolved.id);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
@@ -528,7 +1075,7 @@ function targetsEnableCommand(): Command {
           spinner.succeed('Target enabled');
         }
 
-        success(`Target "${target}" enabled`, globalOpts);
+        success(`Target "${resolved.name}" enabled`, globalOpts);
       } catch (err: any) {
         if (spinner.isSpinning) {
           spinner.fail('Failed to enable target');
@@ -546,7 +1093,7 @@ function targetsDisableCommand(): Command {
 
   cmd
     .description('Disable a target (prevent spin-up)')
-    .argument('<target>', 'Target name or ID')
+    .argument('<target>', 'Target name, ID or unique prefix')
     .action(async (target: string, _options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
@@ -555,6 +1102,7 @@ function targetsDisableCommand(): Command {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
 
         if (!globalOpts.quiet) {
@@ -562,7 +1110,8 @@ function targetsDisableCommand(): Command {
         }
 
         const client = createAPIClient(config);
-        const response = await client.disableTarget(target);
+        const resolved = await fetchTarget(client, target);
+        const response = await client.disableTarget(resolved.id);
 
         if (!response.ok) {
           throw new Error(response.error || `HTTP ${response.status}`);
@@ -572,7 +1121,7 @@ function targetsDisableCommand(): Command {
           spinner.succeed('Target disabled');
         }
 
-        success(`Target "${target}" disabled`, globalOpts);
+        success(`Target "${resolved.name}" disabled`, globalOpts);
       } catch (err: any) {
         if (spinner.isSpinning) {
           spinner.fail('Failed to disable target');
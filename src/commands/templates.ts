@@ -0,0 +1,222 @@
+/**
+ * Templates command - Manage reusable work templates
+ */
+
+import { Command } from 'commander';
+import { output, success, error, info, createTable, formatKeyValue, truncate } from '../utils/output.js';
+import { confirm } from '../utils/prompts.js';
+import { readDataFile } from '../utils/data-file.js';
+import { buildContextData } from '../utils/context-data.js';
+import {
+  deleteTemplate,
+  listTemplates,
+  loadTemplate,
+  saveTemplate,
+  templateExists,
+  templateVariables,
+  validateTemplate,
+  validateTemplateName,
+  type WorkTemplate,
+} from '../utils/templates.js';
+import { getGlobalOptions } from '../cli.js';
+
+export function templatesCommand(): Command {
+  const cmd = new Command('templates');
+
+  cmd.description('Manage reusable work templates').action(templatesListAction);
+
+  cmd
+    .command('create')
+    .description('Create a work template; use {{var}} placeholders for values given at submit time')
+    .argument('<name>', 'Template name')
+    .option('--description <text>', 'Task description')
+    .option('--boundary <name>', 'Work boundary')
+    .option('--capability <name>', 'Required capability')
+    .option('--priority <n>', 'Priority level (1-10)', parseInt)
+    .option('--agent-type <type>', 'Required agent type (copilot-cli|claude-code)')
+    .option('--ctx <key=value>', 'Context value for the agent (repeatable)', collect, [])
+    .option('--context-file <path>', 'JSON or YAML file of context values')
+    .option('-f, --file <path>', 'Read the template from a YAML/JSON file ("-" for stdin)')
+    .option('--force', 'Overwrite an existing template')
+    .action(templatesCreateAction);
+
+  cmd
+    .command('list')
+    .alias('ls')
+    .description('List work templates')
+    .action(templatesListAction);
+
+  cmd
+    .command('show')
+    .description('Show a work template')
+    .argument('<name>', 'Template name')
+    .action(templatesShowAction);
+
+  cmd
+    .command('delete')
+    .alias('rm')
+    .description('Delete a work template')
+    .argument('<name>', 'Template name')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(templatesDeleteAction);
+
+  return cmd;
+}
+
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+async function templatesCreateAction(name: string, options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    validateTemplateName(name);
+
+    let template: WorkTemplate;
+    if (options.file) {
+      const document = await readDataFile(options.file);
+      const errors = validateTemplate({ ...(document as object), name });
+      if (errors.length > 0) {
+        throw new Error(`Invalid template: ${errors.join('; ')}`);
+      }
+      template = { ...(document as WorkTemplate), name };
+    } else {
+      if (!options.description) {
+        throw new Error('Description is required (use --description or --file)');
+      }
+      template = {
+        name,
+        description: options.description,
+        boundary: options.boundary,
+        capability: options.capability,
+        priority: options.priority,
+        agentType: options.agentType,
+        contextData: await buildContextData({ pairs: options.ctx, file: options.contextFile }),
+      };
+    }
+
+    if (!options.force && templateExists(name)) {
+      throw new Error(`Template "${name}" already exists (use --force to overwrite)`);
+    }
+
+    const path = saveTemplate(template);
+
+    if (globalOpts.json) {
+      output({ ...template, variables: templateVariables(template), path }, globalOpts);
+    } else {
+      success(`Template "${name}" saved to ${path}`, globalOpts);
+      const variables = templateVariables(template);
+      const vars = variables.map((variable) => ` --var ${variable}=...`).join('');
+      info(`Submit with: shuttle submit --template ${name}${vars}`, globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function templatesListAction(_options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const templates = listTemplates();
+
+    if (globalOpts.json) {
+      output(
+        { templates: templates.map((template) => ({ ...template, variables: templateVariables(template) })) },
+        globalOpts
+      );
+    } else {
+      if (templates.length === 0) {
+        console.log('No templates found');
+        return;
+      }
+
+      const table = createTable(
+        ['Name', 'Description', 'Boundary', 'Capability', 'Variables'],
+        templates.map((template) => [
+          template.name,
+          truncate(template.description, 40),
+          template.boundary || '-',
+          template.capability || '-',
+          templateVariables(template).join(', ') || '-',
+        ])
+      );
+
+      console.log(table.toString());
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function templatesShowAction(name: string, _options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const template = loadTemplate(name);
+    const variables = templateVariables(template);
+
+    if (globalOpts.json) {
+      output({ ...template, variables }, globalOpts);
+    } else {
+      console.log('\nTemplate Details:');
+      console.log(
+        formatKeyValue({
+          'Name': template.name,
+          'Description': template.description,
+          'Boundary': template.boundary || 'N/A',
+          'Capability': template.capability || 'N/A',
+          'Priority': template.priority || 'N/A',
+          'Agent Type': template.agentType || 'Any',
+          'Variables': variables.join(', ') || 'None',
+        })
+      );
+
+      if (template.contextData) {
+        console.log('\nContext Data:');
+        console.log(JSON.stringify(template.contextData, null, 2));
+      }
+
+      console.log();
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
+async function templatesDeleteAction(name: string, options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    // Fail on a missing template before asking
+    if (!templateExists(name)) {
+      throw new Error(`Template "${name}" not found`);
+    }
+
+    if (!options.yes && !globalOpts.json) {
+      const confirmed = await confirm(`Delete template "${name}"?`);
+      if (!confirmed) {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    deleteTemplate(name);
+
+    if (globalOpts.json) {
+      output({ name, deleted: true }, globalOpts);
+    } else {
+      success(`Template "${name}" deleted`, globalOpts);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
@@ -1,106 +1,265 @@
 /**
- * Watch command - Watch a work item's progress in real-time
+ * Watch command - Watch work items' progress in real-time
  */
 
 import { Command } from 'commander';
 import ora from 'ora';
 import { loadConfig } from '../utils/config-file.js';
-import { createAPIClient } from '../api/client.js';
-import { output, error, info, colorStatus } from '../utils/output.js';
+import { createAPIClient, type WeftAPIClient } from '../api/client.js';
+import type { WorkItem } from '../api/models.js';
+import {
+  output,
+  error,
+  info,
+  warning,
+  success,
+  colorStatus,
+  formatProgressBar,
+  createTable,
+  createLiveRegion,
+  truncate,
+} from '../utils/output.js';
+import { followWork } from '../utils/follow-work.js';
+import { parsePositiveDuration, parseSeconds } from '../utils/duration.js';
+import {
+  isTerminalStatus,
+  aggregateWorkOutcome,
+  WORK_OUTCOME_EXIT_CODES,
+  COMMAND_ERROR_EXIT_CODE,
+} from '../utils/work-status.js';
 import { getGlobalOptions } from '../cli.js';
+import { resolveWorkId } from '../utils/resolve-id.js';
 
 export function watchCommand(): Command {
   const cmd = new Command('watch');
 
   cmd
-    .description('Watch a work item\'s progress in real-time')
-    .argument('<work-id>', 'Work item ID to watch')
-    .option('--interval <seconds>', 'Polling interval in seconds', '2')
-    .action(async (workId: string, options, command) => {
+    .description('Watch work items\' progress in real-time and exit with their outcome')
+    .argument('[work-ids...]', 'Work item IDs (or unique prefixes) to watch')
+    .option('--task-id <id>', 'Watch the work items created for a task ID (repeatable)', collect, [])
+    .option('--all-pending', 'Watch every work item that has not finished yet')
+    .option('--timeout <duration>', 'Stop waiting after this long (e.g. 90s, 30m, 2h)')
+    .option('--interval <seconds>', 'Initial polling interval in seconds', '2')
+    .option('--max-interval <seconds>', 'Maximum polling interval while nothing changes', '30')
+    .option('--no-stream', 'Poll instead of streaming updates from the coordinator')
+    .addHelpText(
+      'after',
+      `
+Exit codes:
+  ${WORK_OUTCOME_EXIT_CODES.completed}  all work items completed
+  ${WORK_OUTCOME_EXIT_CODES.failed}  at least one work item failed
+  ${WORK_OUTCOME_EXIT_CODES.cancelled}  at least one work item was cancelled
+  ${WORK_OUTCOME_EXIT_CODES.timeout}  --timeout expired before all work items finished
+  ${COMMAND_ERROR_EXIT_CODE}  watch itself failed (invalid options, network or auth errors)`
+    )
+    .action(async (workIds: string[], options, command) => {
       const globalOpts = getGlobalOptions(command);
       const spinner = ora();
-      let lastStatus = '';
 
       try {
         const config = loadConfig({
           configPath: globalOpts.config,
           projectOverride: globalOpts.project,
+          context: globalOpts.context,
         });
-        const pollInterval = parseInt(options.interval, 10) * 1000;
+        const client = createAPIClient(config);
+
+        if (workIds.length === 0 && options.taskId.length === 0 && !options.allPending) {
+          error('Provide work item IDs, --task-id or --all-pending', globalOpts);
+          process.exit(COMMAND_ERROR_EXIT_CODE);
+        }
+
+        const timeoutMs = options.timeout ? parsePositiveDuration(options.timeout, '--timeout') : undefined;
+        const intervalMs = parseSeconds(options.interval, '--interval');
+        const maxIntervalMs = parseSeconds(options.maxInterval, '--max-interval');
+        const ids = await resolveWorkIds(client, workIds, options);
+
+        if (ids.length === 0) {
+          info('No matching work items to watch', globalOpts);
+          process.exit(0);
+        }
 
         if (!globalOpts.quiet) {
-          info(`Watching work item ${workId} (press Ctrl+C to stop)`, globalOpts);
+          const subject = ids.length === 1 ? `work item ${ids[0]}` : `${ids.length} work items`;
+          info(`Watching ${subject} (press Ctrl+C to stop)`, globalOpts);
           console.log();
         }
 
-        const client = createAPIClient(config);
+        const controller = new AbortController();
+        const timer = timeoutMs !== undefined ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+        const latest = new Map<string, WorkItem>();
+        const errors = new Map<string, string>();
+        const single = ids.length === 1 && !globalOpts.json;
+        const live = single || globalOpts.json || globalOpts.quiet ? undefined : createLiveRegion();
 
-        // Poll for updates
-        const poll = async () => {
-          try {
-            const response = await client.getWork(workId);
+        const render = () => live?.update(renderWatchTable(ids, latest, errors));
+        render();
 
-            if (!response.ok) {
-              throw new Error(response.error || `HTTP ${response.status}`);
-            }
+        const finals = await Promise.all(
+          ids.map((id) =>
+            followWork(client, id, {
+              intervalMs,
+              maxIntervalMs,
+              stream: options.stream,
+              signal: controller.signal,
+              onUpdate: (workItem) => {
+                latest.set(id, workItem);
+                errors.delete(id);
 
-            const workItem = response.data;
+                if (globalOpts.json) {
+                  output({ id, status: workItem.status, progress: workItem.progress }, globalOpts);
+                } else if (single) {
+                  const progressText =
+                    workItem.progress !== undefined ? ` ${formatProgressBar(workItem.progress)}` : '';
+                  spinner.text = `Status: ${colorStatus(workItem.status)}${progressText}`;
+                  if (!spinner.isSpinning && !globalOpts.quiet && !isTerminalStatus(workItem.status)) {
+                    spinner.start();
+                  }
+                }
+                render();
+              },
+              onError: (err) => {
+                errors.set(id, err.message);
+                if (single && !globalOpts.quiet) {
+                  spinner.warn(err.message);
+                }
+                render();
+              },
+            })
+          )
+        );
 
-            // Check if status changed
-            if (workItem.status !== lastStatus) {
-              lastStatus = workItem.status;
+        if (timer) clearTimeout(timer);
+        live?.done();
 
-              const statusText = colorStatus(workItem.status);
-              const progressText =
-                workItem.progress !== undefined ? ` (${workItem.progress}%)` : '';
+        const outcome = aggregateWorkOutcome(finals.map((workItem) => workItem?.status));
 
-              if (!globalOpts.json) {
-                spinner.text = `Status: ${statusText}${progressText}`;
+        if (globalOpts.json) {
+          output(
+            {
+              outcome,
+              workItems: ids.map((id, index) => ({
+                id,
+                status: finals[index]?.status,
+                progress: finals[index]?.progress,
+              })),
+            },
+            globalOpts
+          );
+        } else if (single) {
+          reportSingleOutcome(finals[0], outcome, spinner, globalOpts);
+        } else {
+          const counts = new Map<string, number>();
+          finals.forEach((workItem) => {
+            const status = isTerminalStatus(workItem?.status) ? workItem.status : 'unfinished';
+            counts.set(status, (counts.get(status) || 0) + 1);
+          });
+          const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(', ');
 
-                if (workItem.status === 'completed') {
-                  spinner.succeed('Work completed successfully!');
-                  if (workItem.result?.summary) {
-                    console.log(`Summary: ${workItem.result.summary}`);
-                  }
-                  process.exit(0);
-                } else if (workItem.status === 'failed') {
-                  spinner.fail('Work failed');
-                  if (workItem.error?.message) {
-                    error(`Error: ${workItem.error.message}`, globalOpts);
-                  }
-                  process.exit(1);
-                } else if (workItem.status === 'cancelled') {
-                  spinner.warn('Work was cancelled');
-                  process.exit(0);
-                } else {
-                  if (!spinner.isSpinning) {
-                    spinner.start(statusText);
-                  }
-                }
-              } else {
-                output({ status: workItem.status, progress: workItem.progress }, globalOpts);
-              }
-            }
-          } catch (err: any) {
-            if (!globalOpts.quiet) {
-              spinner.warn(`Failed to fetch status: ${err.message}`);
-            }
+          console.log();
+          if (outcome === 'completed') {
+            success(`All ${ids.length} work items completed`, globalOpts);
+          } else if (outcome === 'timeout') {
+            warning(`Timed out waiting for work items (${summary})`, globalOpts);
+          } else {
+            error(`Work items did not all complete (${summary})`, globalOpts);
           }
+        }
 
-          // Schedule next poll
-          setTimeout(poll, pollInterval);
-        };
-
-        // Start polling
-        await poll();
+        process.exit(WORK_OUTCOME_EXIT_CODES[outcome]);
       } catch (err: any) {
         if (spinner.isSpinning) {
           spinner.fail('Failed to watch work item');
         }
         error(`Error: ${err.message}`, {});
-        process.exit(1);
+        process.exit(COMMAND_ERROR_EXIT_CODE);
       }
     });
 
   return cmd;
 }
+
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Collect the work item IDs selected by arguments, --task-id and --all-pending
+ */
+async function resolveWorkIds(
+  client: WeftAPIClient,
+  workIds: string[],
+  options: { taskId: string[]; allPending?: boolean }
+): Promise<string[]> {
+  // Short IDs and task IDs given as arguments are expanded to full work IDs
+  const ids = await Promise.all(workIds.map((ref) => resolveWorkId(client, ref)));
+
+  if (options.taskId.length > 0 || options.allPending) {
+    const response = await client.listWork();
+
+    if (!response.ok) {
+      throw new Error(response.error || `HTTP ${response.status}`);
+    }
+
+    const workItems = response.data?.workItems || [];
+
+    for (const taskId of options.taskId) {
+      const matches = workItems.filter((item) => item.taskId === taskId);
+      if (matches.length === 0) {
+        throw new Error(`No work item found for task ID ${taskId}`);
+      }
+      ids.push(...matches.map((item) => item.id));
+    }
+
+    if (options.allPending) {
+      ids.push(
+        ...workItems.filter((item) => !isTerminalStatus(item.status)).map((item) => item.id)
+      );
+    }
+  }
+
+  return [...new Set(ids)];
+}
+
+function renderWatchTable(ids: string[], latest: Map<string, WorkItem>, errors: Map<string, string>): string {
+  const table = createTable(
+    ['ID', 'Status', 'Progress', 'Description'],
+    ids.map((id) => {
+      const workItem = latest.get(id);
+      const fetchError = errors.get(id);
+      return [
+        truncate(id, 12),
+        colorStatus(workItem?.status || 'unknown'),
+        workItem?.progress !== undefined ? formatProgressBar(workItem.progress, 10) : '-',
+        fetchError ? `⚠ ${truncate(fetchError, 40)}` : truncate(workItem?.description || '', 40),
+      ];
+    })
+  );
+  return table.toString();
+}
+
+function reportSingleOutcome(
+  workItem: WorkItem | undefined,
+  outcome: string,
+  spinner: ReturnType<typeof ora>,
+  globalOpts: { quiet?: boolean; json?: boolean }
+): void {
+  if (outcome === 'completed') {
+    spinner.succeed('Work completed successfully!');
+    if (workItem?.result?.summary) {
+      console.log(`Summary: ${workItem.result.summary}`);
+    }
+  } else if (outcome === 'failed') {
+    spinner.fail('Work failed');
+    if (workItem?.error?.message) {
+      error(`Error: ${workItem.error.message}`, globalOpts);
+    }
+  } else if (outcome === 'cancelled') {
+    spinner.warn('Work was cancelled');
+  } else {
+    spinner.warn(`Timed out while work was ${workItem?.status || 'unknown'}`);
+  }
+}
@@ -4,12 +4,16 @@
 
 import { Command } from 'commander';
 import ora from 'ora';
+import chalk from 'chalk';
 import { loadConfig } from '../utils/config-file.js';
 import { createAPIClient } from '../api/client.js';
+import { AGENT_TYPES, isAgentType } from '../api/models.js';
 import {
   output,
   error,
   success,
+  warning,
+  info,
   createTable,
   colorStatus,
   colorBoundary,
@@ -17,7 +21,21 @@ import {
   formatKeyValue,
   truncate,
 } from '../utils/output.js';
+import { formatExport, redactSecrets, resolveExportFormat, EXPORT_FORMATS } from '../utils/export.js';
+import { resolveWorkId } from '../utils/resolve-id.js';
+import { parseKeyValuePairs } from '../utils/context-data.js';
+import { parseDuration } from '../utils/duration.js';
+import { confirm } from '../utils/prompts.js';
+import {
+  checkBulkRetryOverrides,
+  failedWorkToRetry,
+  retrySubmission,
+  type RetryOverrides,
+} from '../utils/work-retry.js';
+import { finishedAt } from '../utils/work-status.js';
 import { getGlobalOptions } from '../cli.js';
+import { writeFileSync } from 'fs';
+import { randomUUID } from 'crypto';
 
 export function workCommand(): Command {
   const cmd = new Command('work');
@@ -38,18 +56,54 @@ export function workCommand(): Command {
   cmd
     .command('show')
     .description('Show details of a specific work item')
-    .argument('<work-id>', 'Work item ID')
+    .argument('<work-id>', 'Work item ID or unique prefix')
     .action(workShowAction);
 
+  cmd
+    .command('export')
+    .description('Export work items to YAML, JSON, NDJSON or CSV')
+    .option('--format <format>', `Output format (${EXPORT_FORMATS.join('|')}, default: from --output, else yaml)`)
+    .option('-o, --output <path>', 'Write to a file instead of stdout')
+    .option('--columns <paths>', 'Comma-separated fields to export, e.g. id,status,result.summary')
+    .option('--status <status>', 'Filter by status')
+    .option('--boundary <name>', 'Filter by boundary')
+    .option('--show-secrets', 'Do not redact secret-looking fields in context data')
+    .action(workExportAction);
+
   cmd
     .command('cancel')
     .description('Cancel a work item')
-    .argument('<work-id>', 'Work item ID')
+    .argument('<work-id>', 'Work item ID or unique prefix')
     .action(workCancelAction);
 
+  cmd
+    .command('retry')
+    .description('Resubmit finished work items, linked to the original through their context data')
+    .argument('[work-id]', 'Work item ID or unique prefix')
+    .option('--all-failed', 'Retry every recoverable failed work item that has not been retried yet')
+    .option('--include-unrecoverable', 'With --all-failed, also retry failures not marked recoverable')
+    .option('--any-status', 'Allow resubmitting a completed or cancelled work item')
+    .option('--since <duration>', 'With --all-failed, only work that failed within this long (e.g. 1h, 2d)')
+    .option('--description <text>', 'Override the task description (not with --all-failed)')
+    .option('--boundary <name>', 'Override the boundary')
+    .option('--capability <name>', 'Override the required capability')
+    .option('--priority <n>', 'Override the priority (1-10)', parseInt)
+    .option('--agent-type <type>', 'Override the required agent type (copilot-cli|claude-code)')
+    .option('--deadline <iso>', 'Deadline for the new work item (ISO 8601 timestamp)')
+    .option('--ctx <key=value>', 'Add or replace a context value (repeatable)', collect, [])
+    .option('-y, --yes', 'Skip confirmation')
+    .action(workRetryAction);
+
   return cmd;
 }
 
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 async function workListAction(options: any, command: Command) {
   const globalOpts = getGlobalOptions(command);
   const spinner = ora();
@@ -58,6 +112,7 @@ async function workListAction(options: any, command: Command) {
     const config = loadConfig({
       configPath: globalOpts.config,
       projectOverride: globalOpts.project,
+      context: globalOpts.context,
     });
 
     if (!globalOpts.quiet) {
@@ -91,12 +146,12 @@ async function workListAction(options: any, command: Command) {
 
       const table = createTable(
         ['ID', 'Status', 'Boundary', 'Capability', 'Description', 'Priority', 'Offered'],
-        workItems.map((item: any) => [
+        workItems.map((item) => [
           truncate(item.id, 12),
           colorStatus(item.status),
-          colorBoundary(item.boundary),
-          item.capability,
-          truncate(item.description, 40),
+          colorBoundary(item.boundary || '-'),
+          item.capability || '-',
+          truncate(item.description || '', 40),
           String(item.priority || 5),
           formatTimestamp(item.offeredAt),
         ])
@@ -121,6 +176,7 @@ async function workShowAction(workId: string, _options: any, command: Command) {
     const config = loadConfig({
       configPath: globalOpts.config,
       projectOverride: globalOpts.project,
+      context: globalOpts.context,
     });
 
     if (!globalOpts.quiet) {
@@ -128,13 +184,13 @@ async function workShowAction(workId: string, _options: any, command: Command) {
     }
 
     const client = createAPIClient(config);
-    const response = await client.getWork(workId);
+    const response = await client.getWork(await resolveWorkId(client, workId));
 
     if (!response.ok) {
       throw new Error(response.error || `HTTP ${response.status}`);
     }
 
-    const workItem = response.data;
+    const workItem = response.data!;
 
     if (!globalOpts.quiet) {
       spinner.succeed('Work item found');
@@ -150,7 +206,7 @@ async function workShowAction(workId: string, _options: any, command: Command) {
           'ID': workItem.id,
           'Task ID': workItem.taskId,
           'Status': colorStatus(workItem.status),
-          'Boundary': colorBoundary(workItem.boundary),
+          'Boundary': colorBoundary(workItem.boundary || '-'),
           'Capability': workItem.capability,
           'Description': workItem.description,
           'Priority': workItem.priority,
@@ -198,6 +254,71 @@ async function workShowAction(workId: string, _options: any, command: Command) {
   }
 }
 
+const WORK_EXPORT_COLUMNS = [
+  'id',
+  'taskId',
+  'status',
+  'boundary',
+  'capability',
+  'priority',
+  'description',
+  'assignedTo',
+  'offeredAt',
+  'result.completedAt',
+];
+
+async function workExportAction(options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    const format = resolveExportFormat(
+      options.format || (globalOpts.json ? 'json' : undefined),
+      options.output,
+      'yaml'
+    );
+
+    const client = createAPIClient(config);
+    const response = await client.listWork({
+      status: options.status,
+      classification: options.boundary,
+    });
+
+    if (!response.ok) {
+      throw new Error(response.error || `HTTP ${response.status}`);
+    }
+
+    const workItems = response.data?.workItems || [];
+    const columns: string[] | undefined =
+      options.columns?.split(',').map((column: string) => column.trim()) ||
+      (format === 'csv' ? WORK_EXPORT_COLUMNS : undefined);
+
+    let records = workItems as unknown as Record<string, unknown>[];
+    if (!options.showSecrets) {
+      records = redactSecrets(records);
+    }
+
+    const content = formatExport(records, format, { key: 'workItems', columns });
+
+    if (options.output) {
+      writeFileSync(options.output, content, 'utf-8');
+      if (!globalOpts.quiet) {
+        console.error(`Exported ${workItems.length} work item(s) to ${options.output}`);
+      }
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (err: any) {
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
+
 async function workCancelAction(workId: string, _options: any, command: Command) {
   const globalOpts = getGlobalOptions(command);
   const spinner = ora();
@@ -206,6 +327,7 @@ async function workCancelAction(workId: string, _options: any, command: Command)
     const config = loadConfig({
       configPath: globalOpts.config,
       projectOverride: globalOpts.project,
+      context: globalOpts.context,
     });
 
     if (!globalOpts.quiet) {
@@ -213,7 +335,8 @@ async function workCancelAction(workId: string, _options: any, command: Command)
     }
 
     const client = createAPIClient(config);
-    const response = await client.cancelWork(workId);
+    const id = await resolveWorkId(client, workId);
+    const response = await client.cancelWork(id);
 
     if (!response.ok) {
       throw new Error(response.error || `HTTP ${response.status}`);
@@ -227,7 +350,7 @@ async function workCancelAction(workId: string, _options: any, command: Command)
     if (globalOpts.json) {
       output(response.data, globalOpts);
     } else {
-      success(`Work item ${workId} cancelled`, globalOpts);
+      success(`Work item ${id} cancelled`, globalOpts);
     }
   } catch (err: any) {
     if (spinner.isSpinning) {
@@ -237,3 +360,193 @@ async function workCancelAction(workId: string, _options: any, command: Command)
     process.exit(1);
   }
 }
+
+async function workRetryAction(workId: string | undefined, options: any, command: Command) {
+  const globalOpts = getGlobalOptions(command);
+  const spinner = ora();
+
+  try {
+    const config = loadConfig({
+      configPath: globalOpts.config,
+      projectOverride: globalOpts.project,
+      context: globalOpts.context,
+    });
+
+    if (!workId === !options.allFailed) {
+      throw new Error('Provide a work item ID or --all-failed');
+    }
+    if ((options.since || options.includeUnrecoverable) && !options.allFailed) {
+      throw new Error('--since and --include-unrecoverable require --all-failed');
+    }
+    if (
+      options.priority !== undefined &&
+      (!Number.isInteger(options.priority) || options.priority < 1 || options.priority > 10)
+    ) {
+      throw new Error('--priority must be an integer between 1 and 10');
+    }
+    if (options.agentType && !isAgentType(options.agentType)) {
+      throw new Error(`Invalid agent type: ${options.agentType} (valid values: ${AGENT_TYPES.join(', ')})`);
+    }
+
+    const overrides: RetryOverrides = {
+      description: options.description,
+      boundary: options.boundary,
+      capability: options.capability,
+      priority: options.priority,
+      agentType: options.agentType,
+      deadline: options.deadline,
+      contextData: options.ctx.length > 0 ? parseKeyValuePairs(options.ctx, 'context') : undefined,
+    };
+    if (options.allFailed) {
+      checkBulkRetryOverrides(overrides);
+    }
+    const client = createAPIClient(config);
+
+    if (workId) {
+      if (!globalOpts.quiet) {
+        spinner.start('Fetching work item...');
+      }
+
+      const response = await client.getWork(await resolveWorkId(client, workId));
+      if (!response.ok) {
+        throw new Error(response.error || `HTTP ${response.status}`);
+      }
+
+      const original = response.data!;
+      const submission = retrySubmission(original, overrides, { anyStatus: options.anyStatus });
+
+      if (spinner.isSpinning) {
+        spinner.text = 'Resubmitting work...';
+      }
+
+      const submitted = await client.submitWork({ ...submission, taskId: randomUUID() });
+      if (!submitted.ok) {
+        throw new Error(submitted.error || `HTTP ${submitted.status}`);
+      }
+
+      const newId = submitted.data!.workItemId || submitted.data!.id;
+
+      if (!globalOpts.quiet) {
+        spinner.succeed('Work resubmitted');
+      }
+
+      if (globalOpts.json) {
+        output({ retryOf: original.id, ...submitted.data }, globalOpts);
+      } else {
+        success(`Work item ${original.id} resubmitted as ${newId}`, globalOpts);
+        info(`Track progress with: shuttle work show ${newId}`, globalOpts);
+      }
+      return;
+    }
+
+    const sinceMs = options.since ? parseDuration(options.since) : undefined;
+
+    if (!globalOpts.quiet) {
+      spinner.start('Fetching failed work items...');
+    }
+
+    // All statuses are needed to tell which failures were already retried
+    const response = await client.listWork();
+    if (!response.ok) {
+      throw new Error(response.error || `HTTP ${response.status}`);
+    }
+
+    const candidates = failedWorkToRetry(response.data!.workItems, {
+      sinceMs,
+      includeUnrecoverable: options.includeUnrecoverable,
+    });
+    // Validate every resubmission before asking
+    const retries = candidates.map((original) => ({ original, submission: retrySubmission(original, overrides) }));
+
+    if (!globalOpts.quiet) {
+      spinner.succeed(
+        `Found ${retries.length} ${options.includeUnrecoverable ? '' : 'recoverable '}failed work item(s) to retry`
+      );
+    }
+
+    if (retries.length === 0) {
+      if (globalOpts.json) {
+        output({ retried: 0, failed: 0, results: [] }, globalOpts);
+      }
+      return;
+    }
+
+    if (!globalOpts.json) {
+      const table = createTable(
+        ['ID', 'Capability', 'Description', 'Failed', 'Error', 'Recoverable'],
+        candidates.map((item) => [
+          truncate(item.id, 12),
+          item.capability || '-',
+          truncate(item.description || '', 30),
+          formatTimestamp(finishedAt(item)),
+          truncate(item.error?.message || '', 30),
+          item.error?.recoverable ? 'Yes' : 'No',
+        ])
+      );
+      console.log(table.toString());
+    }
+
+    if (!options.yes && !globalOpts.json) {
+      const confirmed = await confirm(`Retry ${retries.length} work item(s)?`);
+      if (!confirmed) {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    const results: { id: string; ok: boolean; workItemId?: string; error?: string }[] = [];
+
+    for (const [index, { original, submission }] of retries.entries()) {
+      if (!globalOpts.quiet && !globalOpts.json) {
+        spinner.start(`Resubmitting work item ${index + 1}/${retries.length}...`);
+      }
+
+      const submitted = await client.submitWork({ ...submission, taskId: randomUUID() });
+      results.push({
+        id: original.id,
+        ok: submitted.ok,
+        workItemId: submitted.ok ? submitted.data?.workItemId || submitted.data?.id : undefined,
+        error: submitted.ok ? undefined : submitted.error || `HTTP ${submitted.status}`,
+      });
+    }
+
+    const failed = results.filter((result) => !result.ok).length;
+    const retried = results.length - failed;
+
+    if (spinner.isSpinning) {
+      if (failed === 0) {
+        spinner.succeed(`Resubmitted ${retried} work item(s)`);
+      } else {
+        spinner.fail(`Resubmitted ${retried} of ${results.length} work item(s)`);
+      }
+    }
+
+    if (globalOpts.json) {
+      output({ retried, failed, results }, globalOpts);
+    } else {
+      const table = createTable(
+        ['Original ID', 'Status', 'New Work Item ID / Error'],
+        results.map((result) => [
+          truncate(result.id, 12),
+          result.ok ? chalk.green('resubmitted') : chalk.red('failed'),
+          result.ok ? result.workItemId || 'N/A' : result.error || 'Unknown error',
+        ])
+      );
+      console.log(table.toString());
+
+      if (failed > 0) {
+        warning(`${failed} of ${results.length} work item(s) could not be resubmitted`, globalOpts);
+      }
+    }
+
+    if (failed > 0) {
+      process.exit(1);
+    }
+  } catch (err: any) {
+    if (spinner.isSpinning) {
+      spinner.fail('Failed to retry work');
+    }
+    error(`Error: ${err.message}`, {});
+    process.exit(1);
+  }
+}
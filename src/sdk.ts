@@ -0,0 +1,54 @@
+/**
+ * Shuttle SDK
+ * Programmatic access to the Weft coordinator for Node scripts, using the
+ * same client, configuration and helpers as the shuttle CLI.
+ *
+ * @example
+ * import { createAPIClient, loadConfig, submitAndWait } from '@loom/shuttle/sdk';
+ *
+ * const client = createAPIClient(loadConfig());
+ * const { outcome, workItem } = await submitAndWait(client, {
+ *   description: 'Update dependencies',
+ *   boundary: 'personal',
+ *   capability: 'typescript',
+ * });
+ */
+
+export {
+  WeftAPIClient,
+  createAPIClient,
+  parseResponse,
+  type APIClientOptions,
+  type APIResponse,
+} from './api/client.js';
+export type { RetryOptions } from './api/retry.js';
+export { SchemaError, type Schema } from './api/schema.js';
+export * from './api/models.js';
+
+export {
+  loadConfig,
+  resolveConfig,
+  type ShuttleConfiguration,
+  type LoadConfigOptions,
+  type ResolvedConfig,
+  type ConfigOrigin,
+  type ConfigLayer,
+} from './utils/config-file.js';
+
+export {
+  followWork,
+  submitAndWait,
+  type FollowWorkOptions,
+  type SubmitAndWaitOptions,
+  type SubmitAndWaitResult,
+} from './utils/follow-work.js';
+export {
+  TERMINAL_WORK_STATUSES,
+  WORK_OUTCOME_EXIT_CODES,
+  COMMAND_ERROR_EXIT_CODE,
+  isTerminalStatus,
+  aggregateWorkOutcome,
+  type TerminalWorkStatus,
+  type WorkOutcome,
+} from './utils/work-status.js';
+export { parseDuration } from './utils/duration.js';
@@ -0,0 +1,63 @@
+/**
+ * Agent work history
+ * Reconstructs what an agent worked on from the work items assigned to it.
+ */
+
+import type { WorkItem, WorkStatus } from '../api/models.js';
+import { finishedAt, isTerminalStatus } from './work-status.js';
+
+export interface AgentHistoryEntry {
+  workItem: WorkItem;
+  status: WorkStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Time from assignment to completion, or until now for unfinished work */
+  durationMs?: number;
+}
+
+export interface AgentHistorySummary {
+  total: number;
+  byStatus: Partial<Record<WorkStatus, number>>;
+  /** Mean duration of finished work */
+  averageDurationMs?: number;
+}
+
+/**
+ * Work assigned to an agent, newest first
+ */
+export function agentHistory(workItems: WorkItem[], guid: string, now = Date.now()): AgentHistoryEntry[] {
+  return workItems
+    .filter((item) => item.assignedTo === guid)
+    .map((item) => {
+      const end = finishedAt(item);
+      const started = item.assignedAt ? new Date(item.assignedAt).getTime() : undefined;
+      const ended = end ? new Date(end).getTime() : isTerminalStatus(item.status) ? undefined : now;
+      return {
+        workItem: item,
+        status: item.status,
+        startedAt: item.assignedAt,
+        finishedAt: end,
+        durationMs: started !== undefined && ended !== undefined ? Math.max(0, ended - started) : undefined,
+      };
+    })
+    .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''));
+}
+
+export function summarizeHistory(entries: AgentHistoryEntry[]): AgentHistorySummary {
+  const byStatus: AgentHistorySummary['byStatus'] = {};
+  const durations: number[] = [];
+
+  for (const entry of entries) {
+    byStatus[entry.status] = (byStatus[entry.status] || 0) + 1;
+    if (entry.finishedAt && entry.durationMs !== undefined) {
+      durations.push(entry.durationMs);
+    }
+  }
+
+  return {
+    total: entries.length,
+    byStatus,
+    averageDurationMs:
+      durations.length > 0 ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length) : undefined,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Agent selectors
+ * Match registered agents by type, capability, status and idle time, for
+ * commands that act on several agents at once.
+ */
+
+import type { Agent, WorkItem } from '../api/models.js';
+
+export interface AgentSelector {
+  type?: string;
+  capability?: string;
+  status?: string;
+  /** Only agents without work for at least this long */
+  idleForMs?: number;
+}
+
+/**
+ * Whether an agent is in a status
+ * "idle" also covers online agents that have no current tasks.
+ */
+export function agentHasStatus(agent: Agent, status: string): boolean {
+  if (status === 'idle') {
+    return agent.status === 'idle' || (agent.status === 'online' && !agent.currentTaskCount);
+  }
+  return agent.status === status;
+}
+
+/**
+ * Time of each agent's most recent work, from assignments and completions
+ */
+export function lastActivityByAgent(workItems: WorkItem[]): Map<string, number> {
+  const activity = new Map<string, number>();
+
+  for (const item of workItems) {
+    if (!item.assignedTo) continue;
+    const times = [item.assignedAt, item.result?.completedAt, item.error?.occurredAt]
+      .filter(Boolean)
+      .map((time) => new Date(time!).getTime());
+    // Unfinished work keeps the agent busy until now
+    if (item.status === 'assigned' || item.status === 'in-progress') {
+      times.push(Date.now());
+    }
+    if (times.length > 0) {
+      activity.set(item.assignedTo, Math.max(activity.get(item.assignedTo) ?? 0, ...times));
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * How long an agent has been without work, or undefined if it is working
+ * Agents that never had work count from their registration.
+ */
+export function idleTimeMs(agent: Agent, lastActivity: Map<string, number>, now = Date.now()): number | undefined {
+  if (agent.currentTaskCount) {
+    return undefined;
+  }
+  const since = lastActivity.get(agent.guid) ?? (agent.registeredAt ? new Date(agent.registeredAt).getTime() : undefined);
+  return since === undefined ? undefined : Math.max(0, now - since);
+}
+
+export function matchesSelector(
+  agent: Agent,
+  selector: AgentSelector,
+  lastActivity: Map<string, number> = new Map(),
+  now = Date.now()
+): boolean {
+  if (selector.type && agent.agentType !== selector.type) {
+    return false;
+  }
+  if (selector.capability && !(agent.capabilities || []).includes(selector.capability)) {
+    return false;
+  }
+  if (selector.status && !agentHasStatus(agent, selector.status)) {
+    return false;
+  }
+  if (selector.idleForMs !== undefined) {
+    const idle = idleTimeMs(agent, lastActivity, now);
+    if (idle === undefined || idle < selector.idleForMs) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function selectAgents(
+  agents: Agent[],
+  selector: AgentSelector,
+  lastActivity?: Map<string, number>,
+  now?: number
+): Agent[] {
+  return agents.filter((agent) => matchesSelector(agent, selector, lastActivity, now));
+}
@@ -1,17 +1,58 @@
 /**
  * Configuration file management
  * Stores user preferences in ~/.loom/config.json
+ *
+ * A project config file (.loom/config.json or .loomrc) found by walking up
+ * from the current directory is layered on top of the user file.
+ *
+ * The file can hold several named contexts (connection profiles). Top-level
+ * values form the "default" context, so flat files written by older versions
+ * keep working unchanged; other contexts live under `contexts`.
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, chmodSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join, resolve } from 'path';
 import type { CLIConfiguration } from '@mdlopresti/loom-shared';
 import { DEFAULT_CLI_CONFIG } from '@mdlopresti/loom-shared';
+import { resolveCredentialStore, type CredentialStore } from './credentials.js';
 
 const CONFIG_DIR = join(homedir(), '.loom');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
 
+export const DEFAULT_CONTEXT = 'default';
+
+/**
+ * Shuttle settings on top of the shared CLI configuration
+ */
+export interface ShuttleConfiguration extends CLIConfiguration {
+  /** External credential helper used to store the API token */
+  credentialCommand?: string;
+}
+
+/**
+ * Config keys holding secrets, masked in output unless explicitly requested
+ */
+export const SECRET_CONFIG_KEYS: (keyof ShuttleConfiguration)[] = ['apiToken'];
+
+/**
+ * On-disk layout of the config file
+ */
+interface ConfigFile extends Partial<ShuttleConfiguration> {
+  currentContext?: string;
+  contexts?: Record<string, Partial<ShuttleConfiguration>>;
+}
+
+/**
+ * Summary of a named context
+ */
+export interface ContextInfo {
+  name: string;
+  current: boolean;
+  apiUrl?: string;
+  projectId?: string;
+}
+
 /**
  * Ensure config directory exists
  */
@@ -21,91 +62,354 @@ function ensureConfigDir(): void {
   }
 }
 
+/**
+ * Read the raw config file, returning an empty config if it does not exist
+ */
+function readConfigFile(filePath: string, warn = true): ConfigFile {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    if (warn) {
+      console.warn(`Warning: Failed to parse config file: ${error}`);
+    }
+    return {};
+  }
+}
+
+function writeConfigFile(filePath: string, file: ConfigFile): void {
+  ensureConfigDir();
+  writeFileSync(filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  // Older files may still hold a plaintext token, so tighten existing permissions too
+  chmodSync(filePath, 0o600);
+}
+
+/**
+ * Credential store used for a config file (credentials are kept next to it)
+ */
+function credentialStoreFor(filePath: string, credentialCommand?: string): CredentialStore {
+  return resolveCredentialStore({
+    credentialsPath: join(dirname(filePath), 'credentials.json'),
+    credentialCommand,
+  });
+}
+
+/**
+ * Read the stored token for a context, warning instead of failing
+ */
+function readStoredToken(
+  filePath: string,
+  context: string,
+  credentialCommand?: string
+): string | undefined {
+  try {
+    return credentialStoreFor(filePath, credentialCommand).get(context);
+  } catch (error: any) {
+    console.warn(`Warning: Failed to read stored API token: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Merge values into a context and write the config file
+ * The API token is handed to the credential store instead of being written
+ * to the config file, and any plaintext token left there is removed.
+ */
+function writeContextValues(
+  filePath: string,
+  name: string,
+  values: Partial<ShuttleConfiguration>,
+  create: boolean
+): void {
+  // Parse errors are ignored, the file will be overwritten
+  const file = readConfigFile(filePath, false);
+  const { apiToken, ...rest } = values;
+
+  let existing: Partial<ShuttleConfiguration>;
+  if (name !== DEFAULT_CONTEXT && create) {
+    existing = file.contexts?.[name] || {};
+  } else {
+    existing = contextValues(file, name);
+  }
+
+  const merged: Partial<ShuttleConfiguration> = { ...existing, ...rest };
+  if (apiToken) {
+    credentialStoreFor(filePath, merged.credentialCommand).set(name, apiToken);
+    delete merged.apiToken;
+  }
+
+  if (name === DEFAULT_CONTEXT) {
+    const { contexts, currentContext } = file;
+    writeConfigFile(filePath, { ...merged, currentContext, contexts });
+  } else {
+    writeConfigFile(filePath, { ...file, contexts: { ...file.contexts, [name]: merged } });
+  }
+}
+
+/**
+ * Split a config file into its default-context values and context bookkeeping
+ */
+function defaultContextValues(file: ConfigFile): Partial<ShuttleConfiguration> {
+  const { currentContext: _currentContext, contexts: _contexts, ...values } = file;
+  return values;
+}
+
+/**
+ * Resolve which context is active
+ * Priority: explicit override > LOOM_CONTEXT env var > file currentContext > default
+ */
+function resolveContextName(file: ConfigFile, override?: string): string {
+  return override || process.env.LOOM_CONTEXT || file.currentContext || DEFAULT_CONTEXT;
+}
+
+/**
+ * Values stored for a context, throwing if it does not exist
+ */
+function contextValues(file: ConfigFile, name: string): Partial<ShuttleConfiguration> {
+  if (name === DEFAULT_CONTEXT) {
+    return defaultContextValues(file);
+  }
+
+  const values = file.contexts?.[name];
+  if (!values) {
+    throw new Error(`Unknown context "${name}" (see: shuttle config get-contexts)`);
+  }
+  return values;
+}
+
 /**
  * Options for loading configuration
  */
 export interface LoadConfigOptions {
   configPath?: string;
   projectOverride?: string;
+  context?: string;
+  /** Directory to start project config discovery from (default: cwd) */
+  cwd?: string;
 }
 
 /**
- * Load configuration from file and environment variables
- * Environment variables take precedence over file config
- * CLI --project flag takes precedence over everything
+ * Where a resolved config value came from
+ */
+export type ConfigLayer = 'flag' | 'env' | 'project' | 'user' | 'credentials' | 'default';
+
+export interface ConfigOrigin {
+  layer: ConfigLayer;
+  /** Flag, env var, file or store the value was read from */
+  source?: string;
+}
+
+export interface ResolvedConfig {
+  config: ShuttleConfiguration;
+  origins: Partial<Record<keyof ShuttleConfiguration, ConfigOrigin>>;
+  /** Project config file in effect, if one was found */
+  projectConfigPath?: string;
+}
+
+/**
+ * Keys a project config file may not set
+ * Project files are usually committed, so they must not hold tokens, run commands
+ * or point the stored token at a server of their choosing.
  */
-export function loadConfig(configPathOrOptions?: string | LoadConfigOptions): CLIConfiguration {
-  // Handle both old-style string argument and new options object
-  let configPath: string | undefined;
-  let projectOverride: string | undefined;
+const USER_ONLY_CONFIG_KEYS: (keyof ShuttleConfiguration)[] = [
+  'apiToken',
+  'credentialCommand',
+  'apiUrl',
+  'natsUrl',
+];
 
+/**
+ * Find the nearest project config file, walking up from a directory
+ * Looks for .loom/config.json or .loomrc; the user config file is never
+ * treated as a project file.
+ */
+export function findProjectConfig(startDir = process.cwd(), userConfigPath = CONFIG_FILE): string | undefined {
+  let dir = resolve(startDir);
+
+  for (;;) {
+    for (const candidate of [join(dir, '.loom', 'config.json'), join(dir, '.loomrc')]) {
+      if (candidate !== resolve(userConfigPath) && candidate !== CONFIG_FILE && existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read a project config file, dropping keys it is not allowed to set
+ */
+function readProjectConfig(filePath: string): Partial<ShuttleConfiguration> {
+  const values = { ...readConfigFile(filePath) };
+
+  for (const key of USER_ONLY_CONFIG_KEYS) {
+    if (values[key] !== undefined) {
+      console.warn(`Warning: Ignoring ${key} in project config ${filePath}`);
+      delete values[key];
+    }
+  }
+
+  const { currentContext: _currentContext, contexts: _contexts, ...rest } = values;
+  return rest;
+}
+
+function normalizeLoadOptions(configPathOrOptions?: string | LoadConfigOptions): LoadConfigOptions {
   if (typeof configPathOrOptions === 'string') {
-    configPath = configPathOrOptions;
-  } else if (configPathOrOptions) {
-    configPath = configPathOrOptions.configPath;
-    projectOverride = configPathOrOptions.projectOverride;
+    return { configPath: configPathOrOptions };
   }
+  return configPathOrOptions || {};
+}
 
-  const filePath = configPath || CONFIG_FILE;
+/**
+ * Resolve configuration from every layer, recording where each value came from
+ * Priority: CLI flag > env var > project file > user file > default
+ */
+export function resolveConfig(configPathOrOptions?: string | LoadConfigOptions): ResolvedConfig {
+  const options = normalizeLoadOptions(configPathOrOptions);
 
-  let fileConfig: Partial<CLIConfiguration> = {};
+  const filePath = options.configPath || CONFIG_FILE;
+  const file = readConfigFile(filePath);
+  const contextName = resolveContextName(file, options.context);
+  const userConfig = contextValues(file, contextName);
 
-  if (existsSync(filePath)) {
-    try {
-      const content = readFileSync(filePath, 'utf-8');
-      fileConfig = JSON.parse(content);
-    } catch (error) {
-      console.warn(`Warning: Failed to parse config file: ${error}`);
+  const projectConfigPath = findProjectConfig(options.cwd, filePath);
+  const projectConfig = projectConfigPath ? readProjectConfig(projectConfigPath) : {};
+
+  const config: Partial<ShuttleConfiguration> = {};
+  const origins: ResolvedConfig['origins'] = {};
+  const userSource = contextName === DEFAULT_CONTEXT ? filePath : `${filePath} (context: ${contextName})`;
+
+  // The first layer with a value wins
+  const pick = <K extends keyof ShuttleConfiguration>(
+    key: K,
+    layers: {
+      flag?: [string, ShuttleConfiguration[K] | undefined];
+      env?: string;
+      fallback?: ShuttleConfiguration[K];
+    } = {}
+  ): void => {
+    const candidates: [ConfigOrigin, ShuttleConfiguration[K] | undefined][] = [
+      [{ layer: 'flag', source: layers.flag?.[0] }, layers.flag?.[1]],
+      [
+        { layer: 'env', source: layers.env },
+        layers.env ? (process.env[layers.env] as ShuttleConfiguration[K] | undefined) : undefined,
+      ],
+      [{ layer: 'project', source: projectConfigPath }, projectConfig[key]],
+      [{ layer: 'user', source: userSource }, userConfig[key]],
+      [{ layer: 'default' }, layers.fallback],
+    ];
+
+    const match = candidates.find(([, value]) => value !== undefined && value !== '');
+    if (match) {
+      config[key] = match[1];
+      origins[key] = match[0];
     }
+  };
+
+  pick('natsUrl', { env: 'NATS_URL', fallback: DEFAULT_CLI_CONFIG.natsUrl });
+  pick('projectId', {
+    flag: ['--project', options.projectOverride],
+    env: 'PROJECT_ID',
+    fallback: 'default',
+  });
+  pick('defaultBoundary');
+  pick('defaultPriority', { fallback: DEFAULT_CLI_CONFIG.defaultPriority });
+  pick('outputFormat', { fallback: DEFAULT_CLI_CONFIG.outputFormat });
+  pick('apiUrl', { env: 'LOOM_API_URL' });
+  pick('credentialCommand');
+
+  // The API token comes from the credential store unless a legacy plaintext one is present.
+  // The store is only read when the token is first used, so offline commands never run a
+  // credential helper.
+  pick('apiToken', { env: 'LOOM_API_TOKEN' });
+  if (!config.apiToken) {
+    const credentialCommand = config.credentialCommand;
+    let storedToken: { value?: string } | undefined;
+    const readToken = (): string | undefined => {
+      storedToken ??= { value: readStoredToken(filePath, contextName, credentialCommand) };
+      return storedToken.value;
+    };
+
+    Object.defineProperty(config, 'apiToken', { enumerable: true, configurable: true, get: readToken });
+    Object.defineProperty(origins, 'apiToken', {
+      enumerable: true,
+      configurable: true,
+      get: (): ConfigOrigin | undefined =>
+        readToken()
+          ? { layer: 'credentials', source: credentialStoreFor(filePath, credentialCommand).description }
+          : undefined,
+    });
   }
 
-  // Merge with defaults and environment variables
-  // Priority: CLI --project > env var > file config > default
-  const config: CLIConfiguration = {
-    natsUrl: process.env.NATS_URL || fileConfig.natsUrl || DEFAULT_CLI_CONFIG.natsUrl!,
-    projectId: projectOverride || process.env.PROJECT_ID || fileConfig.projectId || 'default',
-    defaultBoundary: fileConfig.defaultBoundary,
-    defaultPriority: fileConfig.defaultPriority || DEFAULT_CLI_CONFIG.defaultPriority,
-    outputFormat: fileConfig.outputFormat || DEFAULT_CLI_CONFIG.outputFormat,
-    apiUrl: process.env.LOOM_API_URL || fileConfig.apiUrl,
-    apiToken: process.env.LOOM_API_TOKEN || fileConfig.apiToken,
-  };
+  return { config: config as ShuttleConfiguration, origins, projectConfigPath };
+}
 
-  return config;
+/**
+ * Load configuration from file and environment variables
+ * Environment variables take precedence over the project config file, which
+ * takes precedence over the user config file
+ * CLI --project flag takes precedence over everything
+ */
+export function loadConfig(configPathOrOptions?: string | LoadConfigOptions): ShuttleConfiguration {
+  return resolveConfig(configPathOrOptions).config;
 }
 
 /**
  * Save configuration to file
+ * Values are merged into the active context (or the given one)
  */
-export function saveConfig(config: Partial<CLIConfiguration>, configPath?: string): void {
-  ensureConfigDir();
+export function saveConfig(
+  config: Partial<ShuttleConfiguration>,
+  configPath?: string,
+  context?: string
+): void {
+  const filePath = configPath || CONFIG_FILE;
+  const name = resolveContextName(readConfigFile(filePath, false), context);
+  writeContextValues(filePath, name, config, false);
+}
 
+/**
+ * Remove the API token for a context from the credential store and the config file
+ * Returns a description of the store it was removed from.
+ */
+export function removeApiToken(configPath?: string, context?: string): string {
   const filePath = configPath || CONFIG_FILE;
+  const file = readConfigFile(filePath, false);
+  const name = resolveContextName(file, context);
+  const values = contextValues(file, name);
 
-  // Load existing config to merge with updates
-  let existingConfig: Partial<CLIConfiguration> = {};
-  if (existsSync(filePath)) {
-    try {
-      const content = readFileSync(filePath, 'utf-8');
-      existingConfig = JSON.parse(content);
-    } catch (error) {
-      // Ignore parse errors, will overwrite
+  const store = credentialStoreFor(filePath, values.credentialCommand);
+  store.delete(name);
+
+  if (values.apiToken !== undefined) {
+    const { apiToken: _apiToken, ...rest } = values;
+    if (name === DEFAULT_CONTEXT) {
+      const { contexts, currentContext } = file;
+      writeConfigFile(filePath, { ...rest, currentContext, contexts });
+    } else {
+      writeConfigFile(filePath, { ...file, contexts: { ...file.contexts, [name]: rest } });
     }
   }
 
-  const mergedConfig = {
-    ...existingConfig,
-    ...config,
-  };
-
-  writeFileSync(filePath, JSON.stringify(mergedConfig, null, 2), 'utf-8');
+  return store.description;
 }
 
 /**
  * Get a specific config value
  */
-export function getConfigValue(key: keyof CLIConfiguration, configPath?: string): any {
-  const config = loadConfig(configPath);
+export function getConfigValue(
+  key: keyof ShuttleConfiguration,
+  configPathOrOptions?: string | LoadConfigOptions
+): any {
+  const config = loadConfig(configPathOrOptions);
   return config[key];
 }
 
@@ -113,18 +417,78 @@ export function getConfigValue(key: keyof CLIConfiguration, configPath?: string)
  * Set a specific config value
  */
 export function setConfigValue(
-  key: keyof CLIConfiguration,
+  key: keyof ShuttleConfiguration,
   value: any,
-  configPath?: string
+  configPath?: string,
+  context?: string
 ): void {
-  saveConfig({ [key]: value }, configPath);
+  saveConfig({ [key]: value }, configPath, context);
 }
 
 /**
  * List all config values
  */
-export function listConfig(configPath?: string): CLIConfiguration {
-  return loadConfig(configPath);
+export function listConfig(configPathOrOptions?: string | LoadConfigOptions): ShuttleConfiguration {
+  return loadConfig(configPathOrOptions);
+}
+
+/**
+ * Name of the active context
+ */
+export function getCurrentContext(configPath?: string, override?: string): string {
+  return resolveContextName(readConfigFile(configPath || CONFIG_FILE, false), override);
+}
+
+/**
+ * List all contexts, including the implicit default context
+ */
+export function listContexts(configPath?: string, override?: string): ContextInfo[] {
+  const file = readConfigFile(configPath || CONFIG_FILE);
+  const current = resolveContextName(file, override);
+
+  const entries: [string, Partial<ShuttleConfiguration>][] = [
+    [DEFAULT_CONTEXT, defaultContextValues(file)],
+    ...Object.entries(file.contexts || {}).filter(([name]) => name !== DEFAULT_CONTEXT),
+  ];
+
+  return entries.map(([name, values]) => ({
+    name,
+    current: name === current,
+    apiUrl: values.apiUrl,
+    projectId: values.projectId,
+  }));
+}
+
+/**
+ * Make a context the active one
+ */
+export function useContext(name: string, configPath?: string): void {
+  const filePath = configPath || CONFIG_FILE;
+  const file = readConfigFile(filePath, false);
+
+  contextValues(file, name); // Throws if the context does not exist
+
+  if (name === DEFAULT_CONTEXT) {
+    const { currentContext: _currentContext, ...rest } = file;
+    writeConfigFile(filePath, rest);
+  } else {
+    writeConfigFile(filePath, { ...file, currentContext: name });
+  }
+}
+
+/**
+ * Create a context, or update the values of an existing one
+ */
+export function setContext(
+  name: string,
+  values: Partial<ShuttleConfiguration>,
+  configPath?: string
+): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+    throw new Error('Context names may only contain letters, numbers, ".", "_" and "-"');
+  }
+
+  writeContextValues(configPath || CONFIG_FILE, name, values, true);
 }
 
 /**
@@ -0,0 +1,111 @@
+/**
+ * Work context data
+ * Builds the contextData sent with a work submission from key=value pairs,
+ * a JSON/YAML file and attached files.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { basename } from 'path';
+import { readDataFile } from './data-file.js';
+
+/** Largest single attachment */
+export const MAX_ATTACHMENT_BYTES = 256 * 1024;
+
+/** Largest combined size of all attachments */
+export const MAX_TOTAL_ATTACHMENT_BYTES = 1024 * 1024;
+
+export interface Attachment {
+  name: string;
+  size: number;
+  /** Text files are sent as is, anything else as base64 */
+  encoding: 'utf-8' | 'base64';
+  content: string;
+}
+
+export interface ContextDataSources {
+  /** `key=value` pairs; later pairs win */
+  pairs?: string[];
+  /** JSON or YAML file holding an object */
+  file?: string;
+  /** Files to inline under `attachments` */
+  attach?: string[];
+}
+
+/**
+ * Parse repeated `key=value` options into an object
+ * Values stay strings; a key without `=` is an error naming the `label`,
+ * e.g. "context" or "variable".
+ */
+export function parseKeyValuePairs(pairs: string[], label: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid ${label} "${pair}" (expected key=value)`);
+    }
+    result[pair.slice(0, separator).trim()] = pair.slice(separator + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Read files to attach, enforcing the size limits
+ */
+export function readAttachments(
+  paths: string[],
+  limits: { maxFileBytes?: number; maxTotalBytes?: number } = {}
+): Attachment[] {
+  const maxFileBytes = limits.maxFileBytes ?? MAX_ATTACHMENT_BYTES;
+  const maxTotalBytes = limits.maxTotalBytes ?? MAX_TOTAL_ATTACHMENT_BYTES;
+  let total = 0;
+
+  return paths.map((path) => {
+    const size = statSync(path).size;
+    if (size > maxFileBytes) {
+      throw new Error(`Attachment ${path} is ${size} bytes; the limit is ${maxFileBytes} bytes per file`);
+    }
+    total += size;
+    if (total > maxTotalBytes) {
+      throw new Error(`Attachments exceed the combined limit of ${maxTotalBytes} bytes`);
+    }
+
+    const buffer = readFileSync(path);
+    const text = !buffer.includes(0);
+    return {
+      name: basename(path),
+      size,
+      encoding: text ? 'utf-8' : 'base64',
+      content: buffer.toString(text ? 'utf-8' : 'base64'),
+    };
+  });
+}
+
+/**
+ * Combine the context sources into contextData
+ * Pairs override keys from the file; attachments go under `attachments`.
+ * Returns undefined when no source was given.
+ */
+export async function buildContextData(sources: ContextDataSources): Promise<Record<string, unknown> | undefined> {
+  const pairs = sources.pairs || [];
+  const attach = sources.attach || [];
+  if (!sources.file && pairs.length === 0 && attach.length === 0) {
+    return undefined;
+  }
+
+  let fromFile: Record<string, unknown> = {};
+  if (sources.file) {
+    const document = await readDataFile(sources.file);
+    if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+      throw new Error(`${sources.file} must contain an object of context values`);
+    }
+    fromFile = document as Record<string, unknown>;
+  }
+
+  const contextData: Record<string, unknown> = { ...fromFile, ...parseKeyValuePairs(pairs, 'context') };
+  if (attach.length > 0) {
+    contextData.attachments = readAttachments(attach);
+  }
+  return contextData;
+}
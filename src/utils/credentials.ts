@@ -0,0 +1,197 @@
+/**
+ * Credential storage for API tokens
+ *
+ * Tokens are kept out of config.json, keyed by config context:
+ * - file: ~/.loom/credentials.json, readable only by the owner (0600)
+ * - encrypted file: same file, entries encrypted with a key derived from
+ *   LOOM_CREDENTIAL_PASSPHRASE (AES-256-GCM, scrypt)
+ * - command: an external helper, like git credential helpers
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, chmodSync } from 'fs';
+import { dirname } from 'path';
+import { spawnSync } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+export interface CredentialStore {
+  /** Human-readable description of where tokens are kept */
+  readonly description: string;
+  get(context: string): string | undefined;
+  set(context: string, token: string): void;
+  delete(context: string): void;
+}
+
+interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+type CredentialEntry = { token: string } | { encrypted: EncryptedSecret };
+
+interface CredentialFile {
+  contexts: Record<string, CredentialEntry>;
+}
+
+/**
+ * Encrypt a secret with a passphrase
+ */
+export function encryptSecret(secret: string, passphrase: string): EncryptedSecret {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(passphrase, salt, 32);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * Throws if the passphrase is wrong or the data was tampered with.
+ */
+export function decryptSecret(secret: EncryptedSecret, passphrase: string): string {
+  const key = scryptSync(passphrase, Buffer.from(secret.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error('Failed to decrypt stored token (wrong LOOM_CREDENTIAL_PASSPHRASE?)');
+  }
+}
+
+/**
+ * File-backed credential store
+ * Entries are encrypted when a passphrase is given.
+ */
+export function createFileCredentialStore(path: string, passphrase?: string): CredentialStore {
+  const read = (): CredentialFile => {
+    if (!existsSync(path)) {
+      return { contexts: {} };
+    }
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  };
+
+  const write = (file: CredentialFile) => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    // mode only applies when the file is created
+    chmodSync(path, 0o600);
+  };
+
+  return {
+    description: passphrase ? `${path} (encrypted)` : path,
+
+    get(context: string) {
+      const entry = read().contexts[context];
+      if (!entry) return undefined;
+      if ('token' in entry) return entry.token;
+
+      if (!passphrase) {
+        throw new Error('Stored token is encrypted; set LOOM_CREDENTIAL_PASSPHRASE to use it');
+      }
+      return decryptSecret(entry.encrypted, passphrase);
+    },
+
+    set(context: string, token: string) {
+      const file = read();
+      file.contexts[context] = passphrase
+        ? { encrypted: encryptSecret(token, passphrase) }
+        : { token };
+      write(file);
+    },
+
+    delete(context: string) {
+      const file = read();
+      if (file.contexts[context]) {
+        delete file.contexts[context];
+        write(file);
+      }
+    },
+  };
+}
+
+/**
+ * Credential store backed by an external helper command
+ *
+ * The helper is run through the shell with "get", "store" or "erase" appended
+ * and receives "key=value" lines on stdin (context, plus token for store).
+ * For "get" it prints the token, either bare or as a "token=..." line.
+ */
+export function createCommandCredentialStore(command: string): CredentialStore {
+  const run = (action: string, input: Record<string, string>): string => {
+    const stdin = Object.entries(input)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('\n');
+    const result = spawnSync(`${command} ${action}`, {
+      shell: true,
+      input: `${stdin}\n`,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+
+    // A helper that exits without reading its input causes EPIPE; report its exit code instead
+    if (result.error && result.status === null) {
+      throw new Error(`Credential helper failed: ${result.error.message}`);
+    }
+    if (result.status !== 0) {
+      throw new Error(`Credential helper "${command} ${action}" exited with code ${result.status}`);
+    }
+    return result.stdout;
+  };
+
+  return {
+    description: `credential helper "${command}"`,
+
+    get(context: string) {
+      const stdout = run('get', { context }).trim();
+      if (!stdout) return undefined;
+
+      const tokenLine = stdout.split('\n').find((line) => line.startsWith('token='));
+      return tokenLine ? tokenLine.substring('token='.length) : stdout.split('\n')[0];
+    },
+
+    set(context: string, token: string) {
+      run('store', { context, token });
+    },
+
+    delete(context: string) {
+      run('erase', { context });
+    },
+  };
+}
+
+/**
+ * Pick the credential store for a configuration
+ * A credential helper wins; otherwise the credentials file next to the config
+ * file, encrypted when LOOM_CREDENTIAL_PASSPHRASE is set.
+ */
+export function resolveCredentialStore(options: {
+  credentialsPath: string;
+  credentialCommand?: string;
+}): CredentialStore {
+  if (options.credentialCommand) {
+    return createCommandCredentialStore(options.credentialCommand);
+  }
+  return createFileCredentialStore(options.credentialsPath, process.env.LOOM_CREDENTIAL_PASSPHRASE);
+}
+
+/**
+ * Mask a secret for display, keeping a short prefix so it can be recognised
+ */
+export function maskSecret(value: string | undefined): string | undefined {
+  if (value === undefined || value === '') return value;
+  if (value.length <= 8) return '********';
+  return `${value.substring(0, 4)}${'*'.repeat(8)}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Cron expressions
+ * Standard five-field expressions (minute hour day-of-month month day-of-week)
+ * with lists, ranges, steps, month/day names and the @daily style macros.
+ * Times are evaluated in the local time zone.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field is "*" */
+  anyDayOfMonth: boolean;
+  /** Whether the day-of-week field is "*" */
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted as another spelling of Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** How far ahead to look for a matching time before giving up */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, spec: FieldSpec): number {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index === -1) {
+    throw new Error(`"${text}" is not a valid ${spec.name}`);
+  }
+  return spec.min + index;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (!range || rest.length > 0) {
+      throw new Error(`"${part}" is not a valid ${spec.name}`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new Error(`"${stepText}" is not a valid ${spec.name} step`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = spec.min;
+      high = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = parseValue(from!, spec);
+      high = parseValue(to!, spec);
+    } else {
+      low = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      high = stepText !== undefined ? spec.max : low;
+    }
+
+    if (low < spec.min || high > spec.max || low > high) {
+      throw new Error(`"${range}" is out of range for ${spec.name} (${spec.min}-${spec.max})`);
+    }
+
+    for (let value = low; value <= high; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * Throws with the offending field when the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`
+    );
+  }
+
+  let sets: Set<number>[];
+  try {
+    sets = fields.map((field, index) => parseField(field, FIELDS[index]!));
+  } catch (err: any) {
+    throw new Error(`Invalid cron expression "${expression}": ${err.message}`);
+  }
+
+  const daysOfWeek = sets[4]!;
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes: sets[0]!,
+    hours: sets[1]!,
+    daysOfMonth: sets[2]!,
+    months: sets[3]!,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Whether the schedule runs on the given day
+ * As in cron, when both day fields are restricted either may match.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * The first minute strictly after `after` that the schedule matches
+ * Throws for expressions that can never match, e.g. February 30th.
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  // Skip whole months, days and hours that cannot match
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
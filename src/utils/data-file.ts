@@ -0,0 +1,89 @@
+/**
+ * Structured data file helpers
+ * Reads JSON, YAML and NDJSON documents from files or stdin
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export type DataFormat = 'json' | 'yaml' | 'ndjson';
+
+/**
+ * Detect the format of a data document from its path, falling back to content sniffing
+ */
+export function detectDataFormat(path: string, content: string): DataFormat {
+  switch (extname(path).toLowerCase()) {
+    case '.json':
+      return 'json';
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.ndjson':
+    case '.jsonl':
+      return 'ndjson';
+  }
+
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    // Several top-level objects on separate lines means NDJSON
+    const lines = trimmed.split('\n').filter((line) => line.trim().length > 0);
+    if (lines.length > 1 && lines.every((line) => line.trim().startsWith('{'))) {
+      return 'ndjson';
+    }
+    return 'json';
+  }
+
+  return 'yaml';
+}
+
+/**
+ * Parse a data document in the given format
+ * NDJSON documents are returned as an array of the parsed lines
+ */
+export function parseDataDocument(content: string, format: DataFormat): unknown {
+  switch (format) {
+    case 'json':
+      return JSON.parse(content);
+    case 'yaml':
+      return parseYaml(content);
+    case 'ndjson':
+      return content
+        .split('\n')
+        .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+        .filter(({ line }) => line.length > 0 && !line.startsWith('#'))
+        .map(({ line, lineNumber }) => {
+          try {
+            return JSON.parse(line);
+          } catch (err: any) {
+            throw new Error(`Invalid JSON on line ${lineNumber}: ${err.message}`);
+          }
+        });
+  }
+}
+
+/**
+ * Read all of stdin as a string
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Read and parse a data file, or stdin when path is "-"
+ */
+export async function readDataFile(path: string, format?: DataFormat): Promise<unknown> {
+  const content = path === '-' ? await readStdin() : readFileSync(path, 'utf-8');
+  const resolvedFormat = format || detectDataFormat(path, content);
+
+  try {
+    return parseDataDocument(content, resolvedFormat);
+  } catch (err: any) {
+    const source = path === '-' ? 'stdin' : path;
+    throw new Error(`Failed to parse ${source} as ${resolvedFormat}: ${err.message}`);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Duration parsing
+ * Accepts values like "500ms", "90s", "30m", "1h30m", "2d" or a bare number of seconds
+ */
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration string into milliseconds
+ * Throws on values that cannot be parsed.
+ */
+export function parseDuration(value: string): number {
+  const trimmed = value.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g;
+  let total = 0;
+  let consumed = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(trimmed)) !== null) {
+    total += parseFloat(match[1]!) * UNIT_MS[match[2]!]!;
+    consumed += match[0];
+  }
+
+  if (consumed.length === 0 || consumed !== trimmed) {
+    throw new Error(`Invalid duration: "${value}" (expected e.g. 30s, 5m, 1h30m)`);
+  }
+
+  return Math.round(total);
+}
+
+/**
+ * Parse a whole, positive number of seconds given to an option such as --interval
+ * Returns milliseconds; throws naming the option otherwise.
+ */
+export function parseSeconds(value: string, option: string): number {
+  if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+    throw new Error(`${option} must be a positive whole number of seconds, got "${value}"`);
+  }
+  return parseInt(value, 10) * 1000;
+}
+
+/**
+ * Parse a duration given to an option such as --timeout, which must be longer than zero
+ * Returns milliseconds; throws naming the option otherwise.
+ */
+export function parsePositiveDuration(value: string, option: string): number {
+  const ms = parseDuration(value);
+  if (ms <= 0) {
+    throw new Error(`${option} must be longer than zero, got "${value}"`);
+  }
+  return ms;
+}
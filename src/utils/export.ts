@@ -0,0 +1,153 @@
+/**
+ * Export helpers
+ * Serialize lists of records to YAML, JSON, NDJSON or CSV, with column
+ * selection and redaction of secret-looking fields.
+ */
+
+import { extname } from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+
+export type ExportFormat = 'yaml' | 'json' | 'ndjson' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['yaml', 'json', 'ndjson', 'csv'];
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names that hold secrets: tokens, passwords, webhook secrets, keys
+ */
+const SECRET_KEY_PATTERN =
+  /(token|secret|password|passphrase|credential|authorization|api[-_]?key|private[-_]?key|ssh[-_]?key|identity[-_]?file|^key$)/i;
+
+/**
+ * Replace secret-looking values with a placeholder, recursively
+ * PEM-encoded keys are redacted wherever they appear.
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactSecrets(entry)) as T;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && entry !== undefined && entry !== null && entry !== ''
+          ? REDACTED
+          : redactSecrets(entry),
+      ])
+    ) as T;
+  }
+
+  if (typeof value === 'string' && /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(value)) {
+    return REDACTED as T;
+  }
+
+  return value;
+}
+
+/**
+ * Read a dotted path (e.g. "config.host") from a record
+ */
+export function getPath(record: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (typeof value === 'object' && value !== null) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, record);
+}
+
+/**
+ * Keep only the given columns, keyed by their path
+ */
+export function selectColumns(
+  records: Record<string, unknown>[],
+  columns: string[]
+): Record<string, unknown>[] {
+  return records.map((record) => Object.fromEntries(columns.map((column) => [column, getPath(record, column)])));
+}
+
+function csvCell(value: unknown): string {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = '';
+  } else if (Array.isArray(value) && value.every((entry) => typeof entry !== 'object')) {
+    text = value.join(';');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize records as CSV (RFC 4180), one column per path
+ */
+export function toCsv(records: Record<string, unknown>[], columns: string[]): string {
+  const lines = [
+    columns.map(csvCell).join(','),
+    ...records.map((record) => columns.map((column) => csvCell(getPath(record, column))).join(',')),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serialize records in an export format
+ * YAML and JSON wrap the list in an object under `key`, so exports can be
+ * read back (e.g. by `targets apply`). CSV needs columns.
+ */
+export function formatExport(
+  records: Record<string, unknown>[],
+  format: ExportFormat,
+  options: { key: string; columns?: string[] }
+): string {
+  const rows = options.columns ? selectColumns(records, options.columns) : records;
+
+  switch (format) {
+    case 'yaml':
+      return stringifyYaml({ [options.key]: rows });
+    case 'json':
+      return `${JSON.stringify({ [options.key]: rows }, null, 2)}\n`;
+    case 'ndjson':
+      return rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+    case 'csv':
+      if (!options.columns) {
+        throw new Error('CSV export needs columns');
+      }
+      return toCsv(records, options.columns);
+  }
+}
+
+/**
+ * Pick the export format from an explicit option, the output file extension or a fallback
+ */
+export function resolveExportFormat(
+  format: string | undefined,
+  outputPath: string | undefined,
+  fallback: ExportFormat
+): ExportFormat {
+  if (format) {
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new Error(`Unknown format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+    }
+    return format as ExportFormat;
+  }
+
+  switch (outputPath ? extname(outputPath).toLowerCase() : '') {
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.json':
+      return 'json';
+    case '.ndjson':
+    case '.jsonl':
+      return 'ndjson';
+    case '.csv':
+      return 'csv';
+    default:
+      return fallback;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Follow a work item until it reaches a terminal state
+ * Streams updates when the coordinator supports it and polls otherwise.
+ */
+
+import { randomUUID } from 'crypto';
+import type { WeftAPIClient } from '../api/client.js';
+import type { WorkItem, WorkSubmission } from '../api/models.js';
+import { createBackoff, sleep } from './polling.js';
+import { aggregateWorkOutcome, isTerminalStatus, type WorkOutcome } from './work-status.js';
+
+export interface FollowWorkOptions {
+  /** Initial polling interval */
+  intervalMs?: number;
+  /** Longest polling interval while nothing changes */
+  maxIntervalMs?: number;
+  /** Try Server-Sent Events before polling (default: true) */
+  stream?: boolean;
+  /** Stop following when aborted */
+  signal?: AbortSignal;
+  /** Called whenever the status or progress changes */
+  onUpdate?: (workItem: WorkItem) => void;
+  /** Called when a poll or the stream fails; following continues */
+  onError?: (err: Error) => void;
+}
+
+/**
+ * Follow a work item, resolving with its last known state
+ * The result is terminal unless the signal was aborted first.
+ */
+export async function followWork(
+  client: WeftAPIClient,
+  workId: string,
+  options: FollowWorkOptions = {}
+): Promise<WorkItem | undefined> {
+  const { signal, onUpdate, onError } = options;
+  const intervalMs = options.intervalMs ?? 2000;
+  const maxIntervalMs = Math.max(options.maxIntervalMs ?? 30000, intervalMs);
+  let last: WorkItem | undefined;
+
+  // Report an update and return whether it changed anything
+  const apply = (workItem: WorkItem): boolean => {
+    const changed =
+      !last || workItem.status !== last.status || workItem.progress !== last.progress;
+    last = workItem;
+    if (changed) {
+      onUpdate?.(workItem);
+    }
+    return changed;
+  };
+
+  if (options.stream !== false) {
+    const stream = await client.streamWork(workId, signal);
+    if (stream.ok) {
+      try {
+        for await (const workItem of stream.data!) {
+          apply(workItem);
+          if (isTerminalStatus(workItem.status)) {
+            return workItem;
+          }
+        }
+      } catch (err: any) {
+        onError?.(new Error(`Update stream interrupted: ${err.message}`));
+      }
+    }
+  }
+
+  // Adaptive polling: back off while nothing changes or requests fail
+  const backoff = createBackoff({ initialMs: intervalMs, maxMs: maxIntervalMs });
+
+  while (!signal?.aborted) {
+    let changed = false;
+    const response = await client.getWork(workId);
+
+    if (response.ok && response.data) {
+      changed = apply(response.data);
+      if (isTerminalStatus(response.data.status)) {
+        return response.data;
+      }
+    } else {
+      onError?.(new Error(`Failed to fetch status: ${response.error || `HTTP ${response.status}`}`));
+    }
+
+    await sleep(backoff.next(changed), signal);
+  }
+
+  return last;
+}
+
+export interface SubmitAndWaitOptions extends FollowWorkOptions {
+  /** Give up waiting after this long; the outcome is then "timeout" */
+  timeoutMs?: number;
+}
+
+export interface SubmitAndWaitResult {
+  workItemId: string;
+  /** Last known state of the work item */
+  workItem?: WorkItem;
+  outcome: WorkOutcome;
+}
+
+/**
+ * Submit a work item and follow it until it finishes
+ * A task ID is generated when none is given, so retried submissions are
+ * deduplicated by the coordinator. Throws if the submission is rejected.
+ */
+export async function submitAndWait(
+  client: WeftAPIClient,
+  work: WorkSubmission,
+  options: SubmitAndWaitOptions = {}
+): Promise<SubmitAndWaitResult> {
+  const response = await client.submitWork({ ...work, taskId: work.taskId || randomUUID() });
+
+  if (!response.ok) {
+    throw new Error(`Failed to submit work: ${response.error || `HTTP ${response.status}`}`);
+  }
+
+  const workItemId = response.data?.workItemId || response.data?.id;
+  if (!workItemId) {
+    throw new Error('Coordinator did not return a work item ID');
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  const timer = options.timeoutMs !== undefined ? setTimeout(abort, options.timeoutMs) : undefined;
+
+  try {
+    const workItem = await followWork(client, workItemId, { ...options, signal: controller.signal });
+    return { workItemId, workItem, outcome: aggregateWorkOutcome([workItem?.status]) };
+  } finally {
+    if (timer) clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+}
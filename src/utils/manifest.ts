@@ -0,0 +1,191 @@
+/**
+ * Work manifest parsing and validation
+ * A manifest describes many work items to submit in one go
+ */
+
+import type { AgentType } from '@mdlopresti/loom-shared';
+import { AGENT_TYPES, isAgentType } from '../api/models.js';
+
+/**
+ * A fully validated work item, ready for submission
+ */
+export interface WorkManifestItem {
+  description: string;
+  boundary: string;
+  capability: string;
+  priority: number;
+  agentType?: AgentType;
+  deadline?: string;
+  taskId?: string;
+  contextData?: Record<string, unknown>;
+}
+
+/**
+ * Values applied to every item that does not set them itself
+ */
+export interface WorkManifestDefaults {
+  boundary?: string;
+  capability?: string;
+  priority?: number;
+  agentType?: AgentType;
+  deadline?: string;
+  contextData?: Record<string, unknown>;
+}
+
+export interface WorkManifestResult {
+  items: WorkManifestItem[];
+  errors: string[];
+}
+
+const ITEM_FIELDS = [
+  'description',
+  'boundary',
+  'capability',
+  'priority',
+  'agentType',
+  'deadline',
+  'taskId',
+  'contextData',
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validate a single raw manifest entry
+ * Returns the normalized item, or the list of problems found
+ */
+export function validateWorkManifestItem(
+  raw: unknown,
+  defaults: WorkManifestDefaults = {}
+): { item?: WorkManifestItem; errors: string[] } {
+  if (typeof raw === 'string') {
+    // Bare strings are shorthand for a description using the defaults
+    raw = { description: raw };
+  }
+
+  if (!isPlainObject(raw)) {
+    return { errors: ['must be an object or a description string'] };
+  }
+
+  const errors: string[] = [];
+
+  const unknownFields = Object.keys(raw).filter((key) => !ITEM_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    errors.push(`unknown field(s): ${unknownFields.join(', ')}`);
+  }
+
+  const description = raw.description;
+  const boundary = raw.boundary ?? defaults.boundary;
+  const capability = raw.capability ?? defaults.capability;
+  const priority = raw.priority ?? defaults.priority ?? 5;
+  const agentType = raw.agentType ?? defaults.agentType;
+  const deadline = raw.deadline ?? defaults.deadline;
+  const taskId = raw.taskId;
+
+  if (!isNonEmptyString(description)) {
+    errors.push('description is required');
+  }
+  if (!isNonEmptyString(boundary)) {
+    errors.push('boundary is required');
+  }
+  if (!isNonEmptyString(capability)) {
+    errors.push('capability is required');
+  }
+  if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < 1 || priority > 10) {
+    errors.push('priority must be an integer between 1 and 10');
+  }
+  if (agentType !== undefined && !isAgentType(agentType)) {
+    errors.push(`agentType must be one of ${AGENT_TYPES.join(', ')}`);
+  }
+  if (deadline !== undefined && (typeof deadline !== 'string' || isNaN(Date.parse(deadline)))) {
+    errors.push('deadline must be an ISO 8601 timestamp');
+  }
+  if (taskId !== undefined && !isNonEmptyString(taskId)) {
+    errors.push('taskId must be a non-empty string');
+  }
+  if (raw.contextData !== undefined && !isPlainObject(raw.contextData)) {
+    errors.push('contextData must be an object');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const contextData =
+    defaults.contextData || raw.contextData
+      ? { ...defaults.contextData, ...(raw.contextData as Record<string, unknown> | undefined) }
+      : undefined;
+
+  return {
+    item: {
+      description: (description as string).trim(),
+      boundary: (boundary as string).trim(),
+      capability: (capability as string).trim(),
+      priority: priority as number,
+      agentType: agentType as AgentType | undefined,
+      deadline: deadline as string | undefined,
+      taskId: taskId as string | undefined,
+      contextData,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Validate a parsed manifest document
+ *
+ * Accepts either a list of items, or an object with an `items` list and
+ * optional `defaults` that override the defaults passed in.
+ * Errors are prefixed with the 1-based item number.
+ */
+export function validateWorkManifest(
+  document: unknown,
+  defaults: WorkManifestDefaults = {}
+): WorkManifestResult {
+  let entries: unknown[];
+  let effectiveDefaults = defaults;
+
+  if (Array.isArray(document)) {
+    entries = document;
+  } else if (isPlainObject(document) && Array.isArray(document.items)) {
+    entries = document.items;
+    if (document.defaults !== undefined) {
+      if (!isPlainObject(document.defaults)) {
+        return { items: [], errors: ['defaults must be an object'] };
+      }
+      effectiveDefaults = { ...defaults, ...(document.defaults as WorkManifestDefaults) };
+    }
+  } else {
+    return { items: [], errors: ['manifest must be a list of work items or an object with an "items" list'] };
+  }
+
+  if (entries.length === 0) {
+    return { items: [], errors: ['manifest contains no work items'] };
+  }
+
+  const items: WorkManifestItem[] = [];
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = validateWorkManifestItem(entry, effectiveDefaults);
+    if (result.item) {
+      items.push(result.item);
+    } else {
+      result.errors.forEach((message) => errors.push(`item ${index + 1}: ${message}`));
+    }
+  });
+
+  const taskIds = items.map((item) => item.taskId).filter((id): id is string => !!id);
+  const duplicates = taskIds.filter((id, index) => taskIds.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`duplicate taskId(s): ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  return { items, errors };
+}
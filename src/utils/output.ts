@@ -119,6 +119,15 @@ export function formatDuration(ms: number | undefined): string {
   return `${hour}h ${min % 60}m`;
 }
 
+/**
+ * Render a percentage as a fixed-width progress bar
+ */
+export function formatProgressBar(percent: number, width = 20): string {
+  const clamped = Math.max(0, Math.min(100, Math.round(percent)));
+  const filled = Math.round((clamped / 100) * width);
+  return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${clamped}%`;
+}
+
 /**
  * Color status text
  */
@@ -197,3 +206,38 @@ export function formatKeyValue(data: Record<string, any>): string {
     })
     .join('\n');
 }
+
+/**
+ * A block of terminal output that is redrawn in place
+ * On non-TTY streams each distinct frame is printed once instead.
+ */
+export interface LiveRegion {
+  update(text: string): void;
+  done(): void;
+}
+
+/**
+ * Create a live region on a stream (stdout by default)
+ */
+export function createLiveRegion(stream: NodeJS.WriteStream = process.stdout): LiveRegion {
+  let lineCount = 0;
+  let lastFrame = '';
+
+  return {
+    update(text: string) {
+      if (text === lastFrame) return;
+      lastFrame = text;
+
+      if (stream.isTTY && lineCount > 0) {
+        // Move the cursor to the start of the previous frame and clear below it
+        stream.write(`\x1b[${lineCount}A\x1b[0J`);
+      }
+      stream.write(text + '\n');
+      lineCount = text.split('\n').length;
+    },
+    done() {
+      lineCount = 0;
+      lastFrame = '';
+    },
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Work pipelines
+ * A pipeline is a DAG of work items; a node is only submitted once every
+ * node it depends on has completed.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import {
+  validateWorkManifestItem,
+  type WorkManifestDefaults,
+  type WorkManifestItem,
+} from './manifest.js';
+import { isTerminalStatus } from './work-status.js';
+
+export interface PipelineNode {
+  id: string;
+  dependsOn: string[];
+  item: WorkManifestItem;
+}
+
+export interface Pipeline {
+  nodes: PipelineNode[];
+}
+
+/**
+ * Node status: "waiting" before submission, "skipped" when it will never be
+ * submitted, otherwise the status of the submitted work item
+ */
+export type PipelineNodeStatus = string;
+
+export interface PipelineNodeState {
+  status: PipelineNodeStatus;
+  workItemId?: string;
+  taskId?: string;
+  /** Submissions made for the node, across resumes */
+  attempts?: number;
+  error?: string;
+  submittedAt?: string;
+  finishedAt?: string;
+}
+
+export interface PipelineState {
+  /** Fingerprint of the pipeline graph, used to refuse resuming a different pipeline */
+  fingerprint: string;
+  startedAt: string;
+  updatedAt: string;
+  nodes: Record<string, PipelineNodeState>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a parsed pipeline document
+ *
+ * Accepts a list of nodes or an object with `nodes` and optional `defaults`.
+ * Each node is a work manifest item plus an `id` and optional `dependsOn` list.
+ */
+export function parsePipeline(
+  document: unknown,
+  defaults: WorkManifestDefaults = {}
+): { pipeline?: Pipeline; errors: string[] } {
+  let entries: unknown[];
+  let effectiveDefaults = defaults;
+
+  if (Array.isArray(document)) {
+    entries = document;
+  } else if (isPlainObject(document) && Array.isArray(document.nodes)) {
+    entries = document.nodes;
+    if (isPlainObject(document.defaults)) {
+      effectiveDefaults = { ...defaults, ...(document.defaults as WorkManifestDefaults) };
+    }
+  } else {
+    return { errors: ['pipeline must be a list of nodes or an object with a "nodes" list'] };
+  }
+
+  if (entries.length === 0) {
+    return { errors: ['pipeline contains no nodes'] };
+  }
+
+  const errors: string[] = [];
+  const nodes: PipelineNode[] = [];
+
+  entries.forEach((entry, index) => {
+    const label = `node ${index + 1}`;
+    if (!isPlainObject(entry)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const { id, dependsOn = [], ...rest } = entry;
+    if (typeof id !== 'string' || id.trim().length === 0) {
+      errors.push(`${label}: id is required`);
+      return;
+    }
+    if (!Array.isArray(dependsOn) || !dependsOn.every((dep) => typeof dep === 'string')) {
+      errors.push(`${id}: dependsOn must be a list of node ids`);
+      return;
+    }
+
+    const result = validateWorkManifestItem(rest, effectiveDefaults);
+    if (!result.item) {
+      result.errors.forEach((message) => errors.push(`${id}: ${message}`));
+      return;
+    }
+
+    nodes.push({ id, dependsOn: dependsOn as string[], item: result.item });
+  });
+
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) {
+      errors.push(`duplicate node id: ${node.id}`);
+    }
+    ids.add(node.id);
+  }
+
+  for (const node of nodes) {
+    for (const dep of node.dependsOn) {
+      if (!ids.has(dep)) {
+        errors.push(`${node.id}: depends on unknown node "${dep}"`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const pipeline = { nodes };
+  const cycle = findCycle(pipeline);
+  if (cycle) {
+    return { errors: [`dependency cycle: ${cycle.join(' -> ')}`] };
+  }
+
+  return { pipeline, errors: [] };
+}
+
+/**
+ * Find a dependency cycle, returned as the list of node ids that form it
+ */
+export function findCycle(pipeline: Pipeline): string[] | undefined {
+  const byId = new Map(pipeline.nodes.map((node) => [node.id, node]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) {
+      return undefined;
+    }
+
+    visiting.add(id);
+    stack.push(id);
+    for (const dep of byId.get(id)?.dependsOn || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return undefined;
+  };
+
+  for (const node of pipeline.nodes) {
+    const cycle = visit(node.id);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+/**
+ * Number of dependency levels above each node (roots are depth 0)
+ */
+export function nodeDepths(pipeline: Pipeline): Map<string, number> {
+  const byId = new Map(pipeline.nodes.map((node) => [node.id, node]));
+  const depths = new Map<string, number>();
+
+  const depth = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    const deps = byId.get(id)?.dependsOn || [];
+    const value = deps.length === 0 ? 0 : Math.max(...deps.map(depth)) + 1;
+    depths.set(id, value);
+    return value;
+  };
+
+  pipeline.nodes.forEach((node) => depth(node.id));
+  return depths;
+}
+
+/**
+ * Ids of all nodes that transitively depend on the given node
+ */
+export function descendantsOf(pipeline: Pipeline, id: string): string[] {
+  const result: string[] = [];
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const node of pipeline.nodes) {
+      if (node.dependsOn.includes(current) && !result.includes(node.id)) {
+        result.push(node.id);
+        queue.push(node.id);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fingerprint of the graph and node contents
+ */
+export function pipelineFingerprint(pipeline: Pipeline): string {
+  return createHash('sha256').update(JSON.stringify(pipeline.nodes)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Create a fresh state with every node waiting
+ */
+export function createPipelineState(pipeline: Pipeline): PipelineState {
+  const now = new Date().toISOString();
+  return {
+    fingerprint: pipelineFingerprint(pipeline),
+    startedAt: now,
+    updatedAt: now,
+    nodes: Object.fromEntries(pipeline.nodes.map((node) => [node.id, { status: 'waiting' }])),
+  };
+}
+
+/**
+ * Prepare a saved state for resuming
+ * Failed, cancelled and skipped nodes go back to waiting so they are retried;
+ * completed and in-flight nodes are kept.
+ */
+export function resumePipelineState(pipeline: Pipeline, state: PipelineState): PipelineState {
+  if (state.fingerprint !== pipelineFingerprint(pipeline)) {
+    throw new Error('State file belongs to a different pipeline definition');
+  }
+
+  const nodes: Record<string, PipelineNodeState> = {};
+  for (const node of pipeline.nodes) {
+    const saved = state.nodes[node.id];
+    const retry = !saved || saved.status === 'skipped' || saved.status === 'failed' || saved.status === 'cancelled';
+    // State files from before attempts were counted still show a submission by its task ID
+    const attempts = saved?.attempts ?? (saved?.taskId || saved?.workItemId ? 1 : 0);
+    nodes[node.id] = retry ? { status: 'waiting', ...(attempts > 0 ? { attempts } : {}) } : saved;
+  }
+
+  return { ...state, nodes };
+}
+
+/**
+ * Task ID for the next submission of a node
+ * A task ID given in the pipeline file is only used for the first attempt:
+ * it is the idempotency key, so reusing it on a retry would return the
+ * earlier failed work item instead of creating a new one.
+ */
+export function nodeTaskId(node: PipelineNode, nodeState: PipelineNodeState): string {
+  return !nodeState.attempts && node.item.taskId ? node.item.taskId : randomUUID();
+}
+
+/**
+ * Nodes that are waiting and whose dependencies have all completed
+ */
+export function readyNodes(pipeline: Pipeline, state: PipelineState): PipelineNode[] {
+  return pipeline.nodes.filter(
+    (node) =>
+      state.nodes[node.id]?.status === 'waiting' &&
+      node.dependsOn.every((dep) => state.nodes[dep]?.status === 'completed')
+  );
+}
+
+/**
+ * Nodes that have been submitted and have not reached a terminal status
+ */
+export function activeNodes(pipeline: Pipeline, state: PipelineState): PipelineNode[] {
+  return pipeline.nodes.filter((node) => {
+    const nodeState = state.nodes[node.id];
+    return !!nodeState?.workItemId && !isTerminalStatus(nodeState.status);
+  });
+}
+
+/**
+ * Check whether every node has finished (terminal or skipped)
+ */
+export function isPipelineFinished(state: PipelineState): boolean {
+  return Object.values(state.nodes).every(
+    (node) => node.status === 'skipped' || isTerminalStatus(node.status)
+  );
+}
+
+/**
+ * Load a saved pipeline state, if one exists
+ */
+export function loadPipelineState(path: string): PipelineState | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as PipelineState;
+  } catch (err: any) {
+    throw new Error(`State file ${path} is not valid JSON (${err.message}); use --fresh to start over`);
+  }
+}
+
+/**
+ * Persist pipeline state
+ */
+export function savePipelineState(path: string, state: PipelineState): void {
+  state.updatedAt = new Date().toISOString();
+  writeFileSync(path, JSON.stringify(state, null, 2), 'utf-8');
+}
@@ -0,0 +1,62 @@
+/**
+ * Polling helpers
+ */
+
+/**
+ * Wait for the given number of milliseconds
+ * Resolves early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    // The listener is removed when the timer fires so long-lived signals do not collect them
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface BackoffOptions {
+  initialMs: number;
+  maxMs: number;
+  factor?: number;
+}
+
+/**
+ * Adaptive poll interval
+ * Grows exponentially while nothing changes and snaps back to the
+ * initial interval as soon as something does.
+ */
+export interface Backoff {
+  /** Interval to wait before the next poll, given whether the last poll saw a change */
+  next(changed: boolean): number;
+  reset(): void;
+}
+
+export function createBackoff(options: BackoffOptions): Backoff {
+  const factor = options.factor ?? 1.5;
+  let current = options.initialMs;
+
+  return {
+    next(changed: boolean) {
+      if (changed) {
+        current = options.initialMs;
+      } else {
+        current = Math.min(Math.round(current * factor), options.maxMs);
+      }
+      return current;
+    },
+    reset() {
+      current = options.initialMs;
+    },
+  };
+}
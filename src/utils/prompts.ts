@@ -4,6 +4,7 @@
 
 import inquirer from 'inquirer';
 import type {
+  AgentType,
   Boundary,
   SpinUpMechanism,
   Priority,
@@ -101,15 +102,36 @@ export async function promptWorkSubmission(
   };
 }
 
+/**
+ * Target registration details
+ * `config` holds the mechanism settings, including the mechanism itself.
+ */
+export interface TargetRegistration {
+  name: string;
+  description?: string;
+  agentType: AgentType;
+  capabilities: string[];
+  boundaries?: Boundary[];
+  mechanism: SpinUpMechanism;
+  config: Record<string, unknown>;
+}
+
 /**
  * Prompt for target registration
+ * Values already given (e.g. as flags) are not asked for again.
  */
-export async function promptTargetRegistration() {
+export async function promptTargetRegistration(
+  defaults: Partial<TargetRegistration> = {}
+): Promise<TargetRegistration> {
+  // Optional details are only asked for when starting from scratch
+  const fullWizard = !defaults.name;
+
   const answers = await inquirer.prompt([
     {
       type: 'input',
       name: 'name',
       message: 'Target name (unique identifier):',
+      when: !defaults.name,
       validate: (input: string) => {
         if (!input || !/^[a-z0-9-]+$/.test(input)) {
           return 'Name must contain only lowercase letters, numbers, and hyphens';
@@ -121,11 +143,13 @@ export async function promptTargetRegistration() {
       type: 'input',
       name: 'description',
       message: 'Description (optional):',
+      when: fullWizard && defaults.description === undefined,
     },
     {
       type: 'list',
       name: 'agentType',
       message: 'Agent type:',
+      when: !defaults.agentType,
       choices: [
         { name: 'Claude Code', value: 'claude-code' },
         { name: 'Copilot CLI', value: 'copilot-cli' },
@@ -136,6 +160,7 @@ export async function promptTargetRegistration() {
       name: 'capabilities',
       message: 'Capabilities (comma-separated):',
       default: 'general',
+      when: fullWizard && !defaults.capabilities,
       filter: (input: string) => input.split(',').map((s) => s.trim()),
     },
     {
@@ -143,6 +168,7 @@ export async function promptTargetRegistration() {
       name: 'boundaries',
       message: 'Allowed work boundaries (comma-separated, e.g., production,staging):',
       default: 'default',
+      when: fullWizard && !defaults.boundaries,
       filter: (input: string) => input.split(',').map((s) => s.trim()).filter(s => s.length > 0),
       validate: (input: string) => {
         const boundaries = input.split(',').map((s) => s.trim()).filter(s => s.length > 0);
@@ -156,6 +182,7 @@ export async function promptTargetRegistration() {
       type: 'list',
       name: 'mechanism',
       message: 'Spin-up mechanism:',
+      when: !defaults.mechanism,
       choices: [
         { name: 'SSH', value: 'ssh' },
         { name: 'Local Process', value: 'local' },
@@ -166,44 +193,60 @@ export async function promptTargetRegistration() {
     },
   ]);
 
+  const registration = { ...defaults, ...answers };
+  const known = defaults.config || {};
+
   // Prompt for mechanism-specific config
-  let mechanismConfig;
-  switch (answers.mechanism as SpinUpMechanism) {
+  let mechanismConfig: Record<string, unknown>;
+  switch (registration.mechanism as SpinUpMechanism) {
     case 'ssh':
-      mechanismConfig = await promptSSHConfig();
+      mechanismConfig = await promptSSHConfig(known);
       break;
     case 'local':
-      mechanismConfig = await promptLocalConfig();
+      mechanismConfig = await promptLocalConfig(known);
       break;
     case 'github-actions':
-      mechanismConfig = await promptGitHubActionsConfig();
+      mechanismConfig = await promptGitHubActionsConfig(known);
       break;
     case 'webhook':
-      mechanismConfig = await promptWebhookConfig();
+      mechanismConfig = await promptWebhookConfig(known);
       break;
     case 'kubernetes':
-      mechanismConfig = await promptKubernetesConfig();
+      mechanismConfig = await promptKubernetesConfig(known);
       break;
+    default:
+      throw new Error(`Unknown spin-up mechanism: ${registration.mechanism}`);
   }
 
   return {
-    ...answers,
-    config: mechanismConfig,
-  };
+    ...registration,
+    config: { ...known, ...mechanismConfig, mechanism: registration.mechanism },
+  } as TargetRegistration;
 }
 
-async function promptSSHConfig() {
-  const config = await inquirer.prompt([
+/**
+ * Check an SSH port, returning an error message if it is invalid
+ */
+export function validatePort(port: number): true | string {
+  return Number.isInteger(port) && port >= 1 && port <= 65535
+    ? true
+    : 'SSH port must be a whole number between 1 and 65535';
+}
+
+async function promptSSHConfig(known: Record<string, unknown>) {
+  return inquirer.prompt([
     {
       type: 'input',
       name: 'host',
       message: 'SSH host:',
+      when: known.host === undefined,
       validate: (input: string) => (input ? true : 'Host is required'),
     },
     {
       type: 'input',
       name: 'user',
       message: 'SSH username:',
+      when: known.user === undefined,
       validate: (input: string) => (input ? true : 'Username is required'),
     },
     {
@@ -211,60 +254,60 @@ async function promptSSHConfig() {
       name: 'port',
       message: 'SSH port:',
       default: 22,
+      when: known.port === undefined,
+      validate: (input: number) => validatePort(input),
     },
     {
       type: 'input',
       name: 'command',
       message: 'Command to execute:',
       default: './bootstrap.sh',
+      when: known.command === undefined,
       validate: (input: string) => (input ? true : 'Command is required'),
     },
     {
       type: 'input',
       name: 'workingDirectory',
       message: 'Working directory (optional):',
+      when: known.workingDirectory === undefined,
+      filter: (input: string) => input || undefined,
     },
   ]);
-
-  return {
-    mechanism: 'ssh' as const,
-    ssh: config,
-  };
 }
 
-async function promptLocalConfig() {
-  const config = await inquirer.prompt([
+async function promptLocalConfig(known: Record<string, unknown>) {
+  return inquirer.prompt([
     {
       type: 'input',
       name: 'command',
       message: 'Command to execute:',
+      when: known.command === undefined,
       validate: (input: string) => (input ? true : 'Command is required'),
     },
     {
       type: 'input',
       name: 'args',
       message: 'Arguments (space-separated, optional):',
+      when: known.args === undefined,
       filter: (input: string) => (input ? input.split(' ') : []),
     },
     {
       type: 'input',
       name: 'workingDirectory',
       message: 'Working directory (optional):',
+      when: known.workingDirectory === undefined,
+      filter: (input: string) => input || undefined,
     },
   ]);
-
-  return {
-    mechanism: 'local' as const,
-    local: config,
-  };
 }
 
-async function promptGitHubActionsConfig() {
-  const config = await inquirer.prompt([
+async function promptGitHubActionsConfig(known: Record<string, unknown>) {
+  return inquirer.prompt([
     {
       type: 'input',
       name: 'repo',
       message: 'Repository (owner/repo):',
+      when: known.repo === undefined,
       validate: (input: string) => {
         if (!input || !input.includes('/')) {
           return 'Repository must be in format owner/repo';
@@ -274,9 +317,10 @@ async function promptGitHubActionsConfig() {
     },
     {
       type: 'input',
-      name: 'workflow',
+      name: 'workflowFile',
       message: 'Workflow file name:',
       default: 'agent-spin-up.yml',
+      when: known.workflowFile === undefined,
       validate: (input: string) => (input ? true : 'Workflow name is required'),
     },
     {
@@ -284,21 +328,18 @@ async function promptGitHubActionsConfig() {
       name: 'ref',
       message: 'Git ref:',
       default: 'main',
+      when: known.ref === undefined,
     },
   ]);
-
-  return {
-    mechanism: 'github-actions' as const,
-    githubActions: config,
-  };
 }
 
-async function promptWebhookConfig() {
-  const config = await inquirer.prompt([
+async function promptWebhookConfig(known: Record<string, unknown>) {
+  return inquirer.prompt([
     {
       type: 'input',
       name: 'url',
       message: 'Webhook URL:',
+      when: known.url === undefined,
       validate: (input: string) => {
         if (!input || !input.startsWith('http')) {
           return 'URL must start with http:// or https://';
@@ -312,28 +353,26 @@ async function promptWebhookConfig() {
       message: 'HTTP method:',
       choices: ['POST', 'GET', 'PUT'],
       default: 'POST',
+      when: known.method === undefined,
     },
   ]);
-
-  return {
-    mechanism: 'webhook' as const,
-    webhook: config,
-  };
 }
 
-async function promptKubernetesConfig() {
-  const config = await inquirer.prompt([
+async function promptKubernetesConfig(known: Record<string, unknown>) {
+  return inquirer.prompt([
     {
       type: 'input',
       name: 'namespace',
       message: 'Kubernetes namespace:',
       default: 'default',
+      when: known.namespace === undefined,
       validate: (input: string) => (input ? true : 'Namespace is required'),
     },
     {
       type: 'input',
       name: 'image',
       message: 'Container image:',
+      when: known.image === undefined,
       validate: (input: string) => (input ? true : 'Image is required'),
     },
     {
@@ -341,14 +380,10 @@ async function promptKubernetesConfig() {
       name: 'jobNamePrefix',
       message: 'Job name prefix:',
       default: 'agent',
+      when: known.jobNamePrefix === undefined,
       validate: (input: string) => (input ? true : 'Job name prefix is required'),
     },
   ]);
-
-  return {
-    mechanism: 'kubernetes' as const,
-    kubernetes: config,
-  };
 }
 
 /**
@@ -365,3 +400,19 @@ export async function confirm(message: string, defaultValue = false): Promise<bo
   ]);
   return confirmed;
 }
+
+/**
+ * Prompt for a secret without echoing it
+ */
+export async function promptSecret(message: string): Promise<string> {
+  const { secret } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'secret',
+      message,
+      mask: '*',
+      validate: (input: string) => (input ? true : 'A value is required'),
+    },
+  ]);
+  return secret;
+}
@@ -0,0 +1,205 @@
+/**
+ * Short ID resolution
+ * Lets users refer to work items, agents and targets by a unique ID prefix
+ * (like a git short SHA) or an alias such as an agent handle.
+ */
+
+import type { WeftAPIClient } from '../api/client.js';
+import type { Agent, Target } from '../api/models.js';
+
+export interface ResolveOptions<T> {
+  /** Singular noun for messages, e.g. "work item" */
+  kind: string;
+  id: (item: T) => string;
+  /** Other names the item can be referred to by, e.g. a handle */
+  aliases?: (item: T) => (string | undefined)[];
+  /** How a candidate is listed when a reference is ambiguous */
+  describe?: (item: T) => string;
+}
+
+const MAX_LISTED_CANDIDATES = 10;
+
+export class IdNotFoundError extends Error {
+  constructor(kind: string, ref: string) {
+    super(`No ${kind} matches "${ref}"`);
+    this.name = 'IdNotFoundError';
+  }
+}
+
+export class AmbiguousIdError extends Error {
+  constructor(kind: string, ref: string, public readonly candidates: string[]) {
+    const listed = candidates.slice(0, MAX_LISTED_CANDIDATES);
+    const more = candidates.length > listed.length ? `, and ${candidates.length - listed.length} more` : '';
+    super(`"${ref}" matches ${candidates.length} ${kind}s: ${listed.join(', ')}${more}`);
+    this.name = 'AmbiguousIdError';
+  }
+}
+
+const FULL_UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a reference is a complete UUID, which needs no lookup
+ */
+export function isFullId(ref: string): boolean {
+  return FULL_UUID.test(ref);
+}
+
+/**
+ * Find the item a reference points to
+ * An exact ID wins, then an exact alias (case-insensitive), then a unique
+ * prefix of the ID or an alias. Throws if nothing or several items match.
+ */
+export function resolveId<T>(items: T[], ref: string, options: ResolveOptions<T>): T {
+  const lower = ref.toLowerCase();
+  const aliases = (item: T) =>
+    (options.aliases?.(item) || []).filter(Boolean).map((alias) => alias!.toLowerCase());
+
+  const exact = items.find((item) => options.id(item) === ref);
+  if (exact) {
+    return exact;
+  }
+
+  let matches = items.filter((item) => aliases(item).includes(lower));
+  if (matches.length === 0) {
+    matches = items.filter(
+      (item) =>
+        options.id(item).toLowerCase().startsWith(lower) || aliases(item).some((alias) => alias.startsWith(lower))
+    );
+  }
+
+  if (matches.length === 0) {
+    throw new IdNotFoundError(options.kind, ref);
+  }
+  if (matches.length > 1) {
+    throw new AmbiguousIdError(options.kind, ref, matches.map(options.describe || options.id));
+  }
+  return matches[0]!;
+}
+
+/** What an agent can be referred to by; agents that have left are only known by these */
+export type AgentRef = Pick<Agent, 'guid' | 'handle'>;
+
+/**
+ * Agent a reference points to
+ * `agent` is undefined when the GUID is not registered (e.g. an agent that just left).
+ */
+export interface AgentLookup {
+  guid: string;
+  agent?: Agent;
+}
+
+const agentResolveOptions: ResolveOptions<AgentRef> = {
+  kind: 'agent',
+  id: (agent) => agent.guid,
+  aliases: (agent) => [agent.handle],
+  describe: (agent) => (agent.handle ? `${agent.guid} (${agent.handle})` : agent.guid),
+};
+
+/**
+ * Find an agent by GUID, handle or unique GUID prefix
+ */
+export function resolveAgent<T extends AgentRef>(agents: T[], ref: string): T {
+  return resolveId(agents, ref, agentResolveOptions);
+}
+
+/**
+ * Look up an agent by reference
+ * A complete GUID that is not registered is returned without an agent.
+ */
+export function lookupAgent(agents: Agent[], ref: string): AgentLookup {
+  if (isFullId(ref) && !agents.some((agent) => agent.guid === ref)) {
+    return { guid: ref };
+  }
+  const agent = resolveAgent(agents, ref);
+  return { guid: agent.guid, agent };
+}
+
+/**
+ * Find a target by ID, name or unique prefix of either
+ */
+export function resolveTarget(targets: Target[], ref: string): Target {
+  return resolveId(targets, ref, {
+    kind: 'target',
+    id: (target) => target.id,
+    aliases: (target) => [target.name],
+    describe: (target) => target.name,
+  });
+}
+
+/**
+ * Full ID of the work item a reference points to
+ * Complete UUIDs are used as given; anything else is matched against the work list.
+ */
+export async function resolveWorkId(client: WeftAPIClient, ref: string): Promise<string> {
+  if (isFullId(ref)) {
+    return ref;
+  }
+
+  const response = await client.listWork();
+  if (!response.ok) {
+    throw new Error(response.error || `HTTP ${response.status}`);
+  }
+
+  return withExactFallback(
+    () =>
+      resolveId(response.data!.workItems, ref, {
+        kind: 'work item',
+        id: (item) => item.id,
+        aliases: (item) => [item.taskId],
+        describe: (item) => `${item.id} (${item.status}${item.description ? `: ${item.description.slice(0, 30)}` : ''})`,
+      }).id,
+    async () => {
+      const work = await client.getWork(ref);
+      return work.ok ? work.data!.id : undefined;
+    }
+  );
+}
+
+/**
+ * Resolve from a list, falling back to an exact lookup for items the list leaves out
+ * (lists may be filtered or truncated by the coordinator)
+ */
+async function withExactFallback<T>(resolve: () => T, lookup: () => Promise<T | undefined>): Promise<T> {
+  try {
+    return resolve();
+  } catch (err) {
+    if (!(err instanceof IdNotFoundError)) {
+      throw err;
+    }
+    const found = await lookup();
+    if (found === undefined) {
+      throw err;
+    }
+    return found;
+  }
+}
+
+/**
+ * Look up an agent by reference among the registered agents
+ */
+export async function fetchAgent(client: WeftAPIClient, ref: string): Promise<AgentLookup> {
+  const response = await client.listAgents();
+  if (!response.ok) {
+    throw new Error(response.error || `HTTP ${response.status}`);
+  }
+
+  return lookupAgent(response.data!.agents, ref);
+}
+
+/**
+ * Target a reference points to
+ */
+export async function fetchTarget(client: WeftAPIClient, ref: string): Promise<Target> {
+  const response = await client.listTargets();
+  if (!response.ok) {
+    throw new Error(response.error || `HTTP ${response.status}`);
+  }
+
+  return withExactFallback(
+    () => resolveTarget(response.data!.targets, ref),
+    async () => {
+      const target = await client.getTarget(ref);
+      return target.ok ? target.data! : undefined;
+    }
+  );
+}
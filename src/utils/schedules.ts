@@ -0,0 +1,183 @@
+/**
+ * Scheduled work
+ * Recurring submissions stored in ~/.loom/schedules.json and run by
+ * `shuttle schedule run`.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import type { WeftAPIClient } from '../api/client.js';
+import type { WorkSubmission } from '../api/models.js';
+import { nextCronTime, parseCron } from './cron.js';
+import { resolveId } from './resolve-id.js';
+import { isTerminalStatus } from './work-status.js';
+
+export const SCHEDULES_FILE = join(homedir(), '.loom', 'schedules.json');
+
+export type ScheduleRunOutcome = 'submitted' | 'skipped' | 'failed';
+
+export interface ScheduleRun {
+  at: string;
+  /** Whether the run was due or started with trigger-now */
+  trigger: 'cron' | 'manual';
+  outcome: ScheduleRunOutcome;
+  workItemId?: string;
+  message?: string;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  paused: boolean;
+  /** Submitted as is on every run, with a fresh task ID */
+  work: Omit<WorkSubmission, 'taskId' | 'deadline'>;
+  createdAt: string;
+  lastRun?: ScheduleRun;
+  /** Work item of the last submitted run, checked to avoid overlapping runs */
+  lastWorkItemId?: string;
+}
+
+export function loadSchedules(path = SCHEDULES_FILE): Schedule[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+  const document = JSON.parse(readFileSync(path, 'utf-8')) as { schedules?: Schedule[] };
+  return document.schedules || [];
+}
+
+export function saveSchedules(schedules: Schedule[], path = SCHEDULES_FILE): void {
+  mkdirSync(dirname(path), { recursive: true });
+  // Schedules submit work unattended, so only their owner may change them
+  writeFileSync(path, JSON.stringify({ schedules }, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Find a schedule by ID, unique ID prefix or name
+ */
+export function resolveSchedule(schedules: Schedule[], ref: string): Schedule {
+  return resolveId(schedules, ref, {
+    kind: 'schedule',
+    id: (schedule) => schedule.id,
+    aliases: (schedule) => [schedule.name],
+    describe: (schedule) => `${schedule.id.slice(0, 8)} (${schedule.name})`,
+  });
+}
+
+/**
+ * Create a schedule, validating its cron expression and name
+ */
+export function addSchedule(
+  input: { name: string; cron: string; work: Schedule['work'] },
+  path = SCHEDULES_FILE
+): Schedule {
+  nextCronTime(parseCron(input.cron), new Date());
+
+  const schedules = loadSchedules(path);
+  if (schedules.some((schedule) => schedule.name === input.name)) {
+    throw new Error(`A schedule named "${input.name}" already exists`);
+  }
+
+  const schedule: Schedule = {
+    id: randomUUID(),
+    name: input.name,
+    cron: input.cron,
+    paused: false,
+    work: input.work,
+    createdAt: new Date().toISOString(),
+  };
+  saveSchedules([...schedules, schedule], path);
+  return schedule;
+}
+
+/**
+ * Change one schedule
+ * The file is re-read first so a running daemon and other commands do not
+ * overwrite each other's changes.
+ */
+export function updateSchedule(id: string, update: (schedule: Schedule) => void, path = SCHEDULES_FILE): Schedule {
+  const schedules = loadSchedules(path);
+  const schedule = schedules.find((entry) => entry.id === id);
+  if (!schedule) {
+    throw new Error(`Schedule ${id} no longer exists`);
+  }
+  update(schedule);
+  saveSchedules(schedules, path);
+  return schedule;
+}
+
+export function removeSchedule(id: string, path = SCHEDULES_FILE): void {
+  saveSchedules(
+    loadSchedules(path).filter((schedule) => schedule.id !== id),
+    path
+  );
+}
+
+export function nextScheduleRun(schedule: Schedule, after = new Date()): Date {
+  return nextCronTime(parseCron(schedule.cron), after);
+}
+
+/**
+ * Run a schedule once
+ * The run is skipped while the previous run's work item is still active, or
+ * when it cannot be checked (a 404 means it is gone and does not block the run).
+ * Failures are reported in the returned run rather than thrown.
+ */
+export async function runSchedule(
+  client: WeftAPIClient,
+  schedule: Schedule,
+  trigger: ScheduleRun['trigger'],
+  now = new Date()
+): Promise<ScheduleRun> {
+  const run = { at: now.toISOString(), trigger };
+
+  if (schedule.lastWorkItemId) {
+    const previous = await client.getWork(schedule.lastWorkItemId);
+    // A previous work item that no longer exists cannot overlap; any other error might hide one
+    if (!previous.ok && previous.status !== 404) {
+      return {
+        ...run,
+        outcome: 'skipped',
+        workItemId: schedule.lastWorkItemId,
+        message: `could not check the previous work item: ${previous.error || `HTTP ${previous.status}`}`,
+      };
+    }
+    if (previous.ok && !isTerminalStatus(previous.data!.status)) {
+      return {
+        ...run,
+        outcome: 'skipped',
+        workItemId: schedule.lastWorkItemId,
+        message: `previous work item is still ${previous.data!.status}`,
+      };
+    }
+  }
+
+  const response = await client.submitWork({
+    ...schedule.work,
+    taskId: randomUUID(),
+    contextData: { ...schedule.work.contextData, scheduleId: schedule.id, scheduledAt: run.at },
+  });
+
+  if (!response.ok) {
+    return { ...run, outcome: 'failed', message: response.error || `HTTP ${response.status}` };
+  }
+  return { ...run, outcome: 'submitted', workItemId: response.data!.workItemId || response.data!.id };
+}
+
+/**
+ * Record a run's result on the schedule
+ */
+export function recordScheduleRun(id: string, run: ScheduleRun, path = SCHEDULES_FILE): Schedule {
+  return updateSchedule(
+    id,
+    (schedule) => {
+      schedule.lastRun = run;
+      if (run.outcome === 'submitted') {
+        schedule.lastWorkItemId = run.workItemId;
+      }
+    },
+    path
+  );
+}
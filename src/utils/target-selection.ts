@@ -0,0 +1,120 @@
+/**
+ * Spin-up target selection
+ * Filters targets down to those that can take a spin-up and ranks them by a
+ * strategy, recording why each target was picked or skipped.
+ */
+
+import type { Target } from '../api/models.js';
+import { isTargetEnabled } from './target-spec.js';
+
+export type SelectionStrategy = 'lru' | 'least-used' | 'fastest' | 'random';
+
+export const SELECTION_STRATEGIES: SelectionStrategy[] = ['lru', 'least-used', 'fastest', 'random'];
+
+export interface SelectionOptions {
+  strategy: SelectionStrategy;
+  /** Number of distinct targets to pick */
+  count?: number;
+  boundary?: string;
+  /** Health check latency by target name; required for the fastest strategy */
+  latencies?: Map<string, number>;
+  /** Source of randomness for the random strategy */
+  random?: () => number;
+}
+
+export interface TargetChoice {
+  target: Target;
+  reason: string;
+}
+
+export interface TargetSelection {
+  selected: TargetChoice[];
+  candidates: Target[];
+  skipped: TargetChoice[];
+}
+
+/**
+ * Why a target cannot take a spin-up, or undefined if it can
+ */
+export function ineligibilityReason(target: Target, boundary?: string): string | undefined {
+  if (!isTargetEnabled(target)) {
+    return 'disabled';
+  }
+  if (target.healthStatus === 'unhealthy') {
+    return 'unhealthy';
+  }
+  // A target without boundaries accepts any boundary
+  if (boundary && target.boundaries?.length && !target.boundaries.includes(boundary)) {
+    return `does not support boundary "${boundary}"`;
+  }
+  return undefined;
+}
+
+function lastUsed(target: Target): number {
+  return target.lastUsedAt ? new Date(target.lastUsedAt).getTime() : 0;
+}
+
+function rank(candidates: Target[], options: SelectionOptions): TargetChoice[] {
+  switch (options.strategy) {
+    case 'lru':
+      return [...candidates]
+        .sort((a, b) => lastUsed(a) - lastUsed(b))
+        .map((target) => ({
+          target,
+          reason: target.lastUsedAt
+            ? `least recently used (last used ${target.lastUsedAt})`
+            : 'least recently used (never used)',
+        }));
+    case 'least-used':
+      return [...candidates]
+        .sort((a, b) => (a.useCount || 0) - (b.useCount || 0))
+        .map((target) => ({ target, reason: `lowest use count (${target.useCount || 0})` }));
+    case 'fastest': {
+      const latencies = options.latencies || new Map<string, number>();
+      return candidates
+        .filter((target) => latencies.has(target.name))
+        .sort((a, b) => latencies.get(a.name)! - latencies.get(b.name)!)
+        .map((target) => ({ target, reason: `fastest health check (${latencies.get(target.name)}ms)` }));
+    }
+    case 'random': {
+      const random = options.random || Math.random;
+      const shuffled = [...candidates];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+      }
+      return shuffled.map((target) => ({
+        target,
+        reason: `random choice among ${candidates.length} eligible target(s)`,
+      }));
+    }
+  }
+}
+
+/**
+ * Pick the best targets for a spin-up
+ * Targets are distinct; fewer than `count` are returned when not enough are eligible.
+ */
+export function selectTargets(targets: Target[], options: SelectionOptions): TargetSelection {
+  const candidates: Target[] = [];
+  const skipped: TargetChoice[] = [];
+
+  for (const target of targets) {
+    const reason = ineligibilityReason(target, options.boundary);
+    if (reason) {
+      skipped.push({ target, reason });
+    } else {
+      candidates.push(target);
+    }
+  }
+
+  const ranked = rank(candidates, options);
+  if (options.strategy === 'fastest') {
+    const tested = new Set(ranked.map((choice) => choice.target.name));
+    candidates
+      .filter((target) => !tested.has(target.name))
+      .forEach((target) => skipped.push({ target, reason: 'failed health check' }));
+  }
+
+  return { selected: ranked.slice(0, options.count ?? 1), candidates, skipped };
+}
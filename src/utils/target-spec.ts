@@ -0,0 +1,309 @@
+/**
+ * Declarative target specs
+ * A target file lists the spin-up targets that should exist; it is diffed
+ * against the coordinator to plan creates, updates and deletes.
+ */
+
+import type { AgentType, Boundary, SpinUpMechanism } from '@mdlopresti/loom-shared';
+import type { Target, TargetInput } from '../api/models.js';
+import { REDACTED } from './export.js';
+
+/**
+ * A validated target from a target file
+ * Optional fields that are left out are not managed: whatever the
+ * coordinator has is kept.
+ */
+export interface TargetSpec {
+  name: string;
+  agentType: AgentType;
+  mechanism: SpinUpMechanism;
+  config?: Record<string, unknown>;
+  description?: string;
+  capabilities?: string[];
+  boundaries?: Boundary[];
+  tags?: string[];
+  enabled?: boolean;
+}
+
+export interface TargetSpecResult {
+  specs: TargetSpec[];
+  errors: string[];
+}
+
+export type TargetPlanAction = 'create' | 'update' | 'delete' | 'no-op';
+
+export interface TargetFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TargetPlanEntry {
+  action: TargetPlanAction;
+  name: string;
+  changes: TargetFieldChange[];
+  spec?: TargetSpec;
+  target?: Target;
+}
+
+export const SPIN_UP_MECHANISMS: SpinUpMechanism[] = ['ssh', 'local', 'github-actions', 'webhook', 'kubernetes'];
+
+const SPEC_FIELDS = [
+  'name',
+  'agentType',
+  'mechanism',
+  'config',
+  'description',
+  'capabilities',
+  'boundaries',
+  'tags',
+  'enabled',
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+/**
+ * Validate a target file
+ * Accepts a list of targets or an object with a `targets` list.
+ */
+export function validateTargetSpecs(document: unknown): TargetSpecResult {
+  const entries = isPlainObject(document) ? document.targets : document;
+
+  if (!Array.isArray(entries)) {
+    return { specs: [], errors: ['target file must be a list of targets or contain a "targets" list'] };
+  }
+
+  const specs: TargetSpec[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((raw, index) => {
+    const label = isPlainObject(raw) && typeof raw.name === 'string' ? raw.name : `target ${index + 1}`;
+    const problems: string[] = [];
+
+    if (!isPlainObject(raw)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const unknownFields = Object.keys(raw).filter((key) => !SPEC_FIELDS.includes(key));
+    if (unknownFields.length > 0) {
+      problems.push(`unknown field(s): ${unknownFields.join(', ')}`);
+    }
+
+    if (typeof raw.name !== 'string' || !/^[a-z0-9-]+$/.test(raw.name)) {
+      problems.push('name is required and may only contain lowercase letters, numbers and hyphens');
+    } else if (seen.has(raw.name)) {
+      problems.push('name is listed more than once');
+    } else {
+      seen.add(raw.name);
+    }
+
+    if (typeof raw.agentType !== 'string' || raw.agentType.length === 0) {
+      problems.push('agentType is required');
+    }
+    if (!SPIN_UP_MECHANISMS.includes(raw.mechanism as SpinUpMechanism)) {
+      problems.push(`mechanism must be one of ${SPIN_UP_MECHANISMS.join(', ')}`);
+    }
+    if (raw.config !== undefined && !isPlainObject(raw.config)) {
+      problems.push('config must be an object');
+    } else if (raw.config) {
+      for (const [key, value] of Object.entries(raw.config)) {
+        if (value === REDACTED) {
+          problems.push(`config.${key} was redacted on export; fill in the real value`);
+        }
+      }
+    }
+    if (raw.description !== undefined && typeof raw.description !== 'string') {
+      problems.push('description must be a string');
+    }
+    for (const field of ['capabilities', 'boundaries', 'tags']) {
+      if (raw[field] !== undefined && !isStringArray(raw[field])) {
+        problems.push(`${field} must be a list of strings`);
+      }
+    }
+    if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+      problems.push('enabled must be true or false');
+    }
+
+    if (problems.length > 0) {
+      problems.forEach((problem) => errors.push(`${label}: ${problem}`));
+      return;
+    }
+
+    if (raw.config === undefined) {
+      specs.push(raw as unknown as TargetSpec);
+    } else {
+      const { mechanism: _mechanism, ...config } = raw.config as Record<string, unknown>;
+      specs.push({ ...(raw as unknown as TargetSpec), config });
+    }
+  });
+
+  return { specs, errors };
+}
+
+/**
+ * Serialize a value with sorted object keys, for order-independent comparison
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameSet(a: string[] = [], b: string[] = []): boolean {
+  return canonical([...a].sort()) === canonical([...b].sort());
+}
+
+/**
+ * Mechanism config of an existing target, without the mechanism echoed back in it
+ */
+function targetConfig(target: Target): Record<string, unknown> {
+  const { mechanism: _mechanism, ...config } = target.config || {};
+  return config;
+}
+
+export function isTargetEnabled(target: Target): boolean {
+  return target.status !== 'disabled';
+}
+
+/**
+ * Differences between a spec and an existing target, for the fields the spec manages
+ */
+export function diffTarget(spec: TargetSpec, target: Target): TargetFieldChange[] {
+  const changes: TargetFieldChange[] = [];
+  const compare = (field: string, before: unknown, after: unknown, equal: boolean) => {
+    if (!equal) changes.push({ field, before, after });
+  };
+
+  compare('agentType', target.agentType, spec.agentType, target.agentType === spec.agentType);
+  compare('mechanism', target.mechanism, spec.mechanism, target.mechanism === spec.mechanism);
+
+  if (spec.config !== undefined) {
+    const config = targetConfig(target);
+    const desired = spec.config;
+    for (const key of new Set([...Object.keys(config), ...Object.keys(desired)])) {
+      compare(`config.${key}`, config[key], desired[key], canonical(config[key]) === canonical(desired[key]));
+    }
+  }
+
+  if (spec.description !== undefined) {
+    compare('description', target.description, spec.description, (target.description || '') === spec.description);
+  }
+  for (const field of ['capabilities', 'boundaries', 'tags'] as const) {
+    if (spec[field] !== undefined) {
+      compare(field, target[field], spec[field], sameSet(target[field], spec[field]));
+    }
+  }
+  if (spec.enabled !== undefined) {
+    compare('enabled', isTargetEnabled(target), spec.enabled, isTargetEnabled(target) === spec.enabled);
+  }
+
+  return changes;
+}
+
+/**
+ * Plan the changes needed to make the coordinator match the specs
+ * Targets missing from the specs are only deleted when pruning.
+ */
+export function planTargetChanges(
+  specs: TargetSpec[],
+  targets: Target[],
+  options: { prune?: boolean } = {}
+): TargetPlanEntry[] {
+  const byName = new Map(targets.map((target) => [target.name, target]));
+  const plan: TargetPlanEntry[] = specs.map((spec) => {
+    const target = byName.get(spec.name);
+    if (!target) {
+      return { action: 'create', name: spec.name, changes: [], spec };
+    }
+
+    const changes = diffTarget(spec, target);
+    return { action: changes.length > 0 ? 'update' : 'no-op', name: spec.name, changes, spec, target };
+  });
+
+  if (options.prune) {
+    const listed = new Set(specs.map((spec) => spec.name));
+    for (const target of targets) {
+      if (!listed.has(target.name)) {
+        plan.push({ action: 'delete', name: target.name, changes: [], target });
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Spec describing an existing target, as read back by validateTargetSpecs
+ */
+export function specFromTarget(target: Target): TargetSpec {
+  const spec: TargetSpec = {
+    name: target.name,
+    agentType: target.agentType,
+    mechanism: target.mechanism,
+    config: targetConfig(target),
+    description: target.description,
+    capabilities: target.capabilities,
+    boundaries: target.boundaries,
+    tags: target.tags,
+    enabled: isTargetEnabled(target),
+  };
+
+  return Object.fromEntries(
+    Object.entries(spec).filter(([, value]) => value !== undefined)
+  ) as unknown as TargetSpec;
+}
+
+/**
+ * Request body for creating a target from a spec
+ */
+export function targetInputFromSpec(spec: TargetSpec): TargetInput {
+  return {
+    name: spec.name,
+    agentType: spec.agentType,
+    mechanism: spec.mechanism,
+    config: { ...spec.config, mechanism: spec.mechanism },
+    capabilities: spec.capabilities || [],
+    boundaries: spec.boundaries,
+    description: spec.description,
+    tags: spec.tags,
+  };
+}
+
+/**
+ * Update request body for the changed fields of a plan entry
+ * The enabled state is not part of it; it has its own endpoints.
+ */
+export function targetUpdatesFromPlan(entry: TargetPlanEntry): Record<string, unknown> {
+  const spec = entry.spec!;
+  const fields = new Set(entry.changes.map((change) => change.field.split('.')[0]));
+  const updates: Record<string, unknown> = {};
+
+  if (fields.has('agentType')) updates.agentType = spec.agentType;
+  if (fields.has('mechanism') || fields.has('config')) {
+    updates.mechanism = spec.mechanism;
+    // Unmanaged config is kept; only the mechanism echoed in it follows the change
+    const config = spec.config ?? (entry.target ? targetConfig(entry.target) : {});
+    updates.config = { ...config, mechanism: spec.mechanism };
+  }
+  for (const field of ['description', 'capabilities', 'boundaries', 'tags'] as const) {
+    if (fields.has(field)) updates[field] = spec[field];
+  }
+
+  return updates;
+}
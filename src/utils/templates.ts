@@ -0,0 +1,188 @@
+/**
+ * Work templates
+ * Reusable work submissions stored as YAML under ~/.loom/templates/, with
+ * {{var}} placeholders filled in at submit time.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+export const TEMPLATES_DIR = join(homedir(), '.loom', 'templates');
+
+export interface WorkTemplate {
+  name: string;
+  description: string;
+  boundary?: string;
+  capability?: string;
+  priority?: number;
+  agentType?: string;
+  contextData?: Record<string, unknown>;
+}
+
+const TEMPLATE_FIELDS = ['name', 'description', 'boundary', 'capability', 'priority', 'agentType', 'contextData'];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateTemplateName(name: string): void {
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(name)) {
+    throw new Error(`Invalid template name "${name}" (use letters, numbers, "-" and "_")`);
+  }
+}
+
+/**
+ * Check a template document, returning the problems found
+ */
+export function validateTemplate(raw: unknown): string[] {
+  if (!isPlainObject(raw)) {
+    return ['template must be an object'];
+  }
+
+  const errors: string[] = [];
+  const unknownFields = Object.keys(raw).filter((key) => !TEMPLATE_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    errors.push(`unknown field(s): ${unknownFields.join(', ')}`);
+  }
+  if (typeof raw.description !== 'string' || raw.description.trim().length === 0) {
+    errors.push('description is required');
+  }
+  for (const field of ['boundary', 'capability', 'agentType']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (
+    raw.priority !== undefined &&
+    (typeof raw.priority !== 'number' || !Number.isInteger(raw.priority) || raw.priority < 1 || raw.priority > 10)
+  ) {
+    errors.push('priority must be an integer between 1 and 10');
+  }
+  if (raw.contextData !== undefined && !isPlainObject(raw.contextData)) {
+    errors.push('contextData must be an object');
+  }
+  return errors;
+}
+
+function collectStrings(value: unknown, into: string[] = []): string[] {
+  if (typeof value === 'string') {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry) => collectStrings(entry, into));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach((entry) => collectStrings(entry, into));
+  }
+  return into;
+}
+
+/**
+ * Names of the {{var}} placeholders in the description and contextData
+ */
+export function templateVariables(template: WorkTemplate): string[] {
+  const names = new Set<string>();
+  for (const text of collectStrings([template.description, template.contextData])) {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      names.add(match[1]!);
+    }
+  }
+  return [...names].sort();
+}
+
+function interpolate<T>(value: T, vars: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER, (_match, name: string) => vars[name]!) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => interpolate(entry, vars)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, interpolate(entry, vars)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Fill in a template's placeholders
+ * Every variable must be supplied, and every supplied variable must be used.
+ */
+export function renderTemplate(template: WorkTemplate, vars: Record<string, string>): WorkTemplate {
+  const expected = templateVariables(template);
+  const missing = expected.filter((name) => vars[name] === undefined);
+  const unknown = Object.keys(vars).filter((name) => !expected.includes(name));
+
+  if (missing.length > 0) {
+    throw new Error(`Missing template variable(s): ${missing.join(', ')} (use --var key=value)`);
+  }
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown template variable(s): ${unknown.join(', ')}` +
+        (expected.length > 0 ? ` (template "${template.name}" uses ${expected.join(', ')})` : '')
+    );
+  }
+
+  return {
+    ...template,
+    description: interpolate(template.description, vars),
+    contextData: interpolate(template.contextData, vars),
+  };
+}
+
+function templatePath(name: string, dir: string): string {
+  validateTemplateName(name);
+  return join(dir, `${name}.yaml`);
+}
+
+export function loadTemplate(name: string, dir = TEMPLATES_DIR): WorkTemplate {
+  const path = templatePath(name, dir);
+  if (!existsSync(path)) {
+    throw new Error(`Template "${name}" not found (see: shuttle templates list)`);
+  }
+
+  const raw = parseYaml(readFileSync(path, 'utf-8'));
+  const errors = validateTemplate(raw);
+  if (errors.length > 0) {
+    throw new Error(`Template "${name}" is invalid: ${errors.join('; ')}`);
+  }
+  return { ...(raw as WorkTemplate), name };
+}
+
+export function listTemplates(dir = TEMPLATES_DIR): WorkTemplate[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.yaml'))
+    .sort()
+    .map((file) => loadTemplate(file.slice(0, -'.yaml'.length), dir));
+}
+
+export function templateExists(name: string, dir = TEMPLATES_DIR): boolean {
+  return existsSync(templatePath(name, dir));
+}
+
+export function saveTemplate(template: WorkTemplate, dir = TEMPLATES_DIR): string {
+  const path = templatePath(template.name, dir);
+  const errors = validateTemplate(template);
+  if (errors.length > 0) {
+    throw new Error(`Invalid template: ${errors.join('; ')}`);
+  }
+
+  mkdirSync(dir, { recursive: true });
+  // Drop unset fields so the file only holds what was given
+  const document = Object.fromEntries(Object.entries(template).filter(([, value]) => value !== undefined));
+  writeFileSync(path, stringifyYaml(document), 'utf-8');
+  return path;
+}
+
+export function deleteTemplate(name: string, dir = TEMPLATES_DIR): void {
+  const path = templatePath(name, dir);
+  if (!existsSync(path)) {
+    throw new Error(`Template "${name}" not found`);
+  }
+  unlinkSync(path);
+}
@@ -0,0 +1,171 @@
+/**
+ * Wait for agents to come and go
+ * Polls the agent list until an agent that was not there before a spin-up
+ * comes online with the expected type and capabilities, or until agents that
+ * were shut down have left.
+ */
+
+import type { WeftAPIClient } from '../api/client.js';
+import type { Agent } from '../api/models.js';
+import { createBackoff, sleep } from './polling.js';
+
+/**
+ * What the agent started by one spin-up should look like
+ */
+export interface AgentExpectation {
+  agentType?: string;
+  capabilities?: string[];
+  /** Values expected in the agent's handle or hostname, e.g. target name or operation ID */
+  hints?: string[];
+}
+
+export interface WaitForAgentsOptions {
+  /** GUIDs of agents registered before the spin-up */
+  knownGuids: Set<string>;
+  timeoutMs: number;
+  intervalMs?: number;
+  maxIntervalMs?: number;
+  signal?: AbortSignal;
+  /** Called when a poll fails; waiting continues */
+  onError?: (err: Error) => void;
+}
+
+/**
+ * Whether a newly seen agent could be the one started for an expectation
+ */
+export function matchesExpectation(agent: Agent, expectation: AgentExpectation): boolean {
+  if (agent.status === 'offline') {
+    return false;
+  }
+  if (expectation.agentType && agent.agentType !== expectation.agentType) {
+    return false;
+  }
+  const capabilities = agent.capabilities || [];
+  return (expectation.capabilities || []).every((capability) => capabilities.includes(capability));
+}
+
+function matchesHint(agent: Agent, expectation: AgentExpectation): boolean {
+  const names = [agent.handle, agent.hostname].filter(Boolean).map((name) => name!.toLowerCase());
+  return (expectation.hints || []).some((hint) => names.some((name) => name.includes(hint.toLowerCase())));
+}
+
+/**
+ * Assign new agents to expectations
+ * Agents whose handle or hostname mentions a hint are preferred; each agent
+ * is assigned at most once.
+ */
+export function assignAgents(
+  agents: Agent[],
+  expectations: AgentExpectation[],
+  found: (Agent | undefined)[],
+  knownGuids: Set<string>
+): (Agent | undefined)[] {
+  const assigned = [...found];
+  const claimed = new Set(assigned.filter(Boolean).map((agent) => agent!.guid));
+  const fresh = agents.filter((agent) => !knownGuids.has(agent.guid));
+
+  for (const preferHint of [true, false]) {
+    expectations.forEach((expectation, index) => {
+      if (assigned[index]) return;
+      const agent = fresh.find(
+        (candidate) =>
+          !claimed.has(candidate.guid) &&
+          matchesExpectation(candidate, expectation) &&
+          (!preferHint || matchesHint(candidate, expectation))
+      );
+      if (agent) {
+        assigned[index] = agent;
+        claimed.add(agent.guid);
+      }
+    });
+  }
+
+  return assigned;
+}
+
+/**
+ * Poll until every expectation has an agent or the timeout expires
+ * Unmatched expectations are undefined in the result.
+ */
+export async function waitForAgents(
+  client: WeftAPIClient,
+  expectations: AgentExpectation[],
+  options: WaitForAgentsOptions
+): Promise<(Agent | undefined)[]> {
+  const intervalMs = options.intervalMs ?? 2000;
+  const backoff = createBackoff({ initialMs: intervalMs, maxMs: Math.max(options.maxIntervalMs ?? 10000, intervalMs) });
+  const deadline = Date.now() + options.timeoutMs;
+  let found: (Agent | undefined)[] = expectations.map(() => undefined);
+
+  while (!options.signal?.aborted) {
+    const response = await client.listAgents();
+    let changed = false;
+
+    if (response.ok) {
+      const next = assignAgents(response.data!.agents, expectations, found, options.knownGuids);
+      changed = next.some((agent, index) => agent !== found[index]);
+      found = next;
+      if (found.every(Boolean)) {
+        return found;
+      }
+    } else {
+      options.onError?.(new Error(response.error || `HTTP ${response.status}`));
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      break;
+    }
+    await sleep(Math.min(backoff.next(changed), remaining), options.signal);
+  }
+
+  return found;
+}
+
+/**
+ * Poll until none of the agents is registered and online
+ * Resolves with the GUIDs still present when the timeout expires.
+ */
+export async function waitForAgentsGone(
+  client: WeftAPIClient,
+  guids: string[],
+  options: Omit<WaitForAgentsOptions, 'knownGuids'> & {
+    /** Called after every poll with the agents still present, e.g. to show their task counts */
+    onPoll?: (remaining: Agent[]) => void;
+  }
+): Promise<string[]> {
+  const intervalMs = options.intervalMs ?? 2000;
+  const backoff = createBackoff({ initialMs: intervalMs, maxMs: Math.max(options.maxIntervalMs ?? 10000, intervalMs) });
+  const deadline = Date.now() + options.timeoutMs;
+  let remaining = [...guids];
+  let lastTasks: number | undefined;
+
+  while (!options.signal?.aborted) {
+    const response = await client.listAgents();
+    let changed = false;
+
+    if (response.ok) {
+      const present = response.data!.agents.filter(
+        (agent) => agent.status !== 'offline' && remaining.includes(agent.guid)
+      );
+      const tasks = present.reduce((sum, agent) => sum + (agent.currentTaskCount || 0), 0);
+      changed = present.length !== remaining.length || tasks !== lastTasks;
+      lastTasks = tasks;
+      remaining = present.map((agent) => agent.guid);
+      options.onPoll?.(present);
+      if (remaining.length === 0) {
+        return remaining;
+      }
+    } else {
+      options.onError?.(new Error(response.error || `HTTP ${response.status}`));
+    }
+
+    const left = deadline - Date.now();
+    if (left <= 0) {
+      break;
+    }
+    await sleep(Math.min(backoff.next(changed), left), options.signal);
+  }
+
+  return remaining;
+}
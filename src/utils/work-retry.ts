@@ -0,0 +1,94 @@
+/**
+ * Work item retries
+ * Builds resubmissions of finished work items, linked to the original through
+ * their context data.
+ */
+
+import type { WorkItem, WorkSubmission } from '../api/models.js';
+import { finishedAt, isTerminalStatus } from './work-status.js';
+
+/** Fields that can be changed when resubmitting */
+export type RetryOverrides = Partial<Omit<WorkSubmission, 'taskId'>>;
+
+/**
+ * Submission that retries a work item
+ * The original's fields are kept unless overridden; context overrides are
+ * merged into the original context. Its deadline is not carried over as it
+ * has usually passed. Throws if the work item has not failed (or, with
+ * `anyStatus`, not finished) or lacks a required field that was not overridden.
+ */
+export function retrySubmission(
+  workItem: WorkItem,
+  overrides: RetryOverrides = {},
+  options: { anyStatus?: boolean } = {}
+): WorkSubmission {
+  if (!isTerminalStatus(workItem.status)) {
+    throw new Error(`Work item ${workItem.id} is still ${workItem.status}; only finished work can be retried`);
+  }
+  if (workItem.status !== 'failed' && !options.anyStatus) {
+    throw new Error(`Work item ${workItem.id} is ${workItem.status}, not failed (use --any-status to resubmit it)`);
+  }
+
+  const description = overrides.description || workItem.description;
+  const boundary = overrides.boundary || workItem.boundary;
+  const capability = overrides.capability || workItem.capability;
+  for (const [field, value] of Object.entries({ description, boundary, capability })) {
+    if (!value) {
+      throw new Error(`Work item ${workItem.id} has no ${field}; pass --${field}`);
+    }
+  }
+
+  const original = workItem.contextData || {};
+  const previousAttempt = typeof original.retryAttempt === 'number' ? original.retryAttempt : 0;
+
+  return {
+    description: description!,
+    boundary: boundary!,
+    capability: capability!,
+    priority: overrides.priority || workItem.priority,
+    agentType: overrides.agentType || workItem.agentType,
+    deadline: overrides.deadline,
+    contextData: {
+      ...original,
+      ...overrides.contextData,
+      retryOf: workItem.id,
+      // Chains of retries all point back to the first work item
+      originalWorkItemId: typeof original.originalWorkItemId === 'string' ? original.originalWorkItemId : workItem.id,
+      retryAttempt: previousAttempt + 1,
+    },
+  };
+}
+
+/**
+ * Check overrides given for a bulk retry, which apply to every item alike
+ * A description override would give every retried task the same text, so it is refused.
+ */
+export function checkBulkRetryOverrides(overrides: RetryOverrides): void {
+  if (overrides.description) {
+    throw new Error('--description cannot be combined with --all-failed; each retry keeps its own description');
+  }
+}
+
+/**
+ * Failed work items to retry in bulk
+ * Only recoverable failures are included unless `includeUnrecoverable`.
+ * Items that failed before `sinceMs` ago, or that an existing work item
+ * already retries, are left out. Newest failures come first.
+ */
+export function failedWorkToRetry(
+  workItems: WorkItem[],
+  options: { sinceMs?: number; includeUnrecoverable?: boolean; now?: number } = {}
+): WorkItem[] {
+  const now = options.now ?? Date.now();
+  const retried = new Set(
+    workItems.map((item) => item.contextData?.retryOf).filter((id): id is string => typeof id === 'string')
+  );
+  // Failures without a recorded end time are placed by when they were last touched
+  const time = (item: WorkItem) => new Date(finishedAt(item) || item.assignedAt || item.offeredAt || 0).getTime();
+
+  return workItems
+    .filter((item) => item.status === 'failed' && !retried.has(item.id))
+    .filter((item) => options.includeUnrecoverable || item.error?.recoverable === true)
+    .filter((item) => options.sinceMs === undefined || time(item) >= now - options.sinceMs)
+    .sort((a, b) => time(b) - time(a));
+}
@@ -0,0 +1,58 @@
+/**
+ * Work item status helpers
+ */
+
+import type { WorkItem } from '../api/models.js';
+
+/**
+ * Statuses after which a work item will not change again
+ */
+export const TERMINAL_WORK_STATUSES = ['completed', 'failed', 'cancelled'] as const;
+
+export type TerminalWorkStatus = (typeof TERMINAL_WORK_STATUSES)[number];
+
+/**
+ * Check whether a work item status is terminal
+ */
+export function isTerminalStatus(status: string | undefined): status is TerminalWorkStatus {
+  return !!status && (TERMINAL_WORK_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * When a work item finished, if it has finished and the coordinator recorded it
+ */
+export function finishedAt(workItem: WorkItem): string | undefined {
+  return workItem.result?.completedAt || workItem.error?.occurredAt;
+}
+
+/**
+ * Overall outcome of a set of followed work items
+ */
+export type WorkOutcome = TerminalWorkStatus | 'timeout';
+
+/**
+ * Process exit codes for each outcome, used by commands that wait for work
+ */
+export const WORK_OUTCOME_EXIT_CODES: Record<WorkOutcome, number> = {
+  completed: 0,
+  failed: 1,
+  cancelled: 2,
+  timeout: 3,
+};
+
+/**
+ * Exit code for errors of a waiting command itself (usage, network or auth
+ * errors), kept apart from the work outcomes so scripts can tell them apart
+ */
+export const COMMAND_ERROR_EXIT_CODE = 4;
+
+/**
+ * Combine the final statuses of several work items into one outcome
+ * Any failure wins, then any cancellation, then anything left unfinished.
+ */
+export function aggregateWorkOutcome(statuses: (string | undefined)[]): WorkOutcome {
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('cancelled')) return 'cancelled';
+  if (statuses.some((status) => !isTerminalStatus(status))) return 'timeout';
+  return 'completed';
+}